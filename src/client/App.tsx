@@ -6,6 +6,7 @@ import UserList from './components/UserList';
 import OrderHistory from './components/OrderHistory';
 import ProductSearch from './components/ProductSearch';
 import SlowQueryDemo from './components/SlowQueryDemo';
+import DbStats from './components/DbStats';
 import ErrorDemo from './components/ErrorDemo';
 
 function App() {
@@ -20,6 +21,7 @@ function App() {
           <NavLink to="/orders">Orders</NavLink>
           <NavLink to="/products">Products</NavLink>
           <NavLink to="/slow-queries">Slow Queries</NavLink>
+          <NavLink to="/db-stats">DB Stats</NavLink>
           <NavLink to="/errors">Error Tests</NavLink>
         </nav>
       </header>
@@ -31,6 +33,7 @@ function App() {
           <Route path="/orders" element={<OrderHistory />} />
           <Route path="/products" element={<ProductSearch />} />
           <Route path="/slow-queries" element={<SlowQueryDemo />} />
+          <Route path="/db-stats" element={<DbStats />} />
           <Route path="/errors" element={<ErrorDemo />} />
         </SentryRoutes>
       </main>
@@ -1,3 +1,38 @@
+import type {
+  CapturedEventDTO,
+  CapturedEventKind,
+  CategoryDTO,
+  CategoryInput,
+  CreateOrderInput,
+  DbChaosResultDTO,
+  DbChaosScenario,
+  DbStatementDTO,
+  DbStatsOrder,
+  DownstreamService,
+  DownstreamServiceDTO,
+  ExportFormat,
+  ExportResource,
+  FaultRuleDTO,
+  FaultRuleRequest,
+  FixtureDTO,
+  FixtureRequest,
+  JobDTO,
+  JobRequest,
+  JobStatus,
+  JobType,
+  KeysetPageDTO,
+  LoadRunDTO,
+  LoadRunRequest,
+  OrderDTO,
+  OrderStatusHistoryDTO,
+  ProductDTO,
+  ProductInput,
+  ScenarioDTO,
+  SeedRunDTO,
+  StubProfileInput,
+  TeachingIndexDTO,
+  UserDTO,
+} from '@shared/types';
 import { addBreadcrumb } from './sentry';
 
 const API_BASE = '/api';
@@ -27,9 +62,25 @@ async function fetchApi<T>(
     throw new Error(error.message || `HTTP ${response.status}`);
   }
 
+  // DELETE endpoints answer 204 without a body
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  // Streaming exports answer CSV/NDJSON
+  if (!response.headers.get('Content-Type')?.includes('application/json')) {
+    return (await response.text()) as T;
+  }
+
   return response.json();
 }
 
+function keysetParams(cursor: string | undefined, pageSize: number) {
+  const params = new URLSearchParams({ pageSize: String(pageSize) });
+  if (cursor) params.set('cursor', cursor);
+  return params;
+}
+
 // Users API
 export const usersApi = {
   // Get all users (inefficient - no pagination)
@@ -40,6 +91,10 @@ export const usersApi = {
     fetchApi<{ data: unknown[]; total: number; page: number; pageSize: number; totalPages: number }>(
       `/users/paginated?page=${page}&pageSize=${pageSize}`
     ),
+
+  // Get users with keyset pagination (pass nextCursor/prevCursor back)
+  getKeyset: (cursor?: string, pageSize = 20) =>
+    fetchApi<KeysetPageDTO<UserDTO>>(`/users/keyset?${keysetParams(cursor, pageSize)}`),
   
   // Get single user
   getById: (id: number) => fetchApi<unknown>(`/users/${id}`),
@@ -70,6 +125,10 @@ export const ordersApi = {
     fetchApi<{ data: unknown[]; total: number; page: number; pageSize: number; totalPages: number }>(
       `/orders?page=${page}&pageSize=${pageSize}`
     ),
+
+  // Get orders with keyset pagination
+  getKeyset: (cursor?: string, pageSize = 20) =>
+    fetchApi<KeysetPageDTO<OrderDTO>>(`/orders/keyset?${keysetParams(cursor, pageSize)}`),
   
   // Search orders (slow query)
   search: (params: { startDate?: string; endDate?: string; status?: string; minAmount?: number }) => {
@@ -95,11 +154,24 @@ export const ordersApi = {
     fetchApi<{ data: unknown[]; warning?: string }>(`/orders/report/daily?days=${days}`),
   
   // Create order
-  create: (userId: number, items: Array<{ productId: number; quantity: number }>) =>
+  create: (userId: number, items: CreateOrderInput['items']) =>
     fetchApi<unknown>('/orders', {
       method: 'POST',
       body: JSON.stringify({ userId, items }),
     }),
+
+  // Status history
+  getTransitions: (id: number) =>
+    fetchApi<{ data: OrderStatusHistoryDTO[]; total: number; status: OrderDTO['status'] }>(
+      `/orders/${id}/transitions`
+    ),
+
+  // Move an order to a new status (409 for moves the lifecycle does not allow)
+  transition: (id: number, status: OrderDTO['status'], note?: string) =>
+    fetchApi<{ order: OrderDTO; transition: OrderStatusHistoryDTO }>(`/orders/${id}/transitions`, {
+      method: 'POST',
+      body: JSON.stringify({ status, actor: 'web', note }),
+    }),
 };
 
 // Products API
@@ -109,6 +181,10 @@ export const productsApi = {
     fetchApi<{ data: unknown[]; total: number; page: number; pageSize: number; totalPages: number }>(
       `/products?page=${page}&pageSize=${pageSize}`
     ),
+
+  // Get products with keyset pagination
+  getKeyset: (cursor?: string, pageSize = 20) =>
+    fetchApi<KeysetPageDTO<ProductDTO>>(`/products/keyset?${keysetParams(cursor, pageSize)}`),
   
   // Search products (slow LIKE query)
   search: (query: string, category?: number) => {
@@ -133,6 +209,30 @@ export const productsApi = {
   
   // Get single product
   getById: (id: number) => fetchApi<unknown>(`/products/${id}`),
+
+  create: (input: ProductInput) =>
+    fetchApi<ProductDTO>('/products', { method: 'POST', body: JSON.stringify(input) }),
+
+  update: (id: number, input: Partial<ProductInput>) =>
+    fetchApi<ProductDTO>(`/products/${id}`, { method: 'PATCH', body: JSON.stringify(input) }),
+
+  delete: (id: number) => fetchApi<void>(`/products/${id}`, { method: 'DELETE' }),
+};
+
+// Categories API
+export const categoriesApi = {
+  getAll: () =>
+    fetchApi<{ data: Array<CategoryDTO & { productCount: string }>; total: number }>('/categories'),
+
+  getById: (id: number) => fetchApi<CategoryDTO & { productCount: string }>(`/categories/${id}`),
+
+  create: (input: CategoryInput) =>
+    fetchApi<CategoryDTO>('/categories', { method: 'POST', body: JSON.stringify(input) }),
+
+  update: (id: number, input: Partial<CategoryInput>) =>
+    fetchApi<CategoryDTO>(`/categories/${id}`, { method: 'PATCH', body: JSON.stringify(input) }),
+
+  delete: (id: number) => fetchApi<void>(`/categories/${id}`, { method: 'DELETE' }),
 };
 
 // Debug API
@@ -189,9 +289,162 @@ export const debugApi = {
   testTransaction: () =>
     fetchApi<{ steps: string[]; info: string }>('/debug/transaction'),
   
+  // List teaching indexes
+  listIndexes: () =>
+    fetchApi<{ data: TeachingIndexDTO[]; total: number }>('/debug/indexes'),
+
+  // Build a teaching index concurrently
+  createIndex: (name: string) =>
+    fetchApi<{ data: TeachingIndexDTO; buildMs: number | null }>(`/debug/indexes/${name}`, {
+      method: 'POST',
+    }),
+
+  // Drop a teaching index concurrently
+  dropIndex: (name: string) =>
+    fetchApi<{ data: TeachingIndexDTO; dropMs: number }>(`/debug/indexes/${name}`, {
+      method: 'DELETE',
+    }),
+
+  // Top statements from pg_stat_statements
+  getDbStats: (orderBy: DbStatsOrder = 'total', limit = 20) =>
+    fetchApi<{ data: DbStatementDTO[]; total: number; orderBy: DbStatsOrder }>(
+      `/debug/db-stats?orderBy=${orderBy}&limit=${limit}`
+    ),
+
+  // Reset pg_stat_statements
+  resetDbStats: () =>
+    fetchApi<{ reset: boolean; timestamp: string }>('/debug/db-stats/reset', { method: 'POST' }),
+
+  // Events captured by the local Sentry ingest stand-in
+  getCapturedEvents: (kind?: CapturedEventKind) =>
+    fetchApi<{ data: CapturedEventDTO[]; total: number }>(
+      `/debug/captured-events${kind ? `?kind=${kind}` : ''}`
+    ),
+
+  // Clear captured events
+  clearCapturedEvents: () =>
+    fetchApi<{ cleared: number }>('/debug/captured-events', { method: 'DELETE' }),
+
   // Health check
   health: () =>
-    fetchApi<{ status: string; sentry: unknown; environment: string; timestamp: string }>(
+    fetchApi<{ status: string; sentry: unknown; environment: string; latestSeedRun: SeedRunDTO | null; timestamp: string }>(
       '/debug/health'
     ),
+
+  // Seed runs behind the current dataset
+  dataset: () => fetchApi<{ data: SeedRunDTO[]; total: number }>('/debug/dataset'),
+};
+
+// Scenarios API
+export const scenariosApi = {
+  // List the slow/optimized endpoint catalog
+  list: () => fetchApi<{ data: ScenarioDTO[]; total: number }>('/scenarios'),
+
+  // Run a scenario endpoint by its resolved URL
+  run: (url: string, method: ScenarioDTO['slow']['method'] = 'GET') =>
+    fetchApi<{ warning?: string }>(url, { method }),
+};
+
+// Streaming exports (download URLs, opened directly rather than fetched)
+export const exportsApi = {
+  url: (resource: ExportResource, format: ExportFormat = 'ndjson', gzip = false) =>
+    `${API_BASE}/exports/${resource}?${new URLSearchParams({ format, gzip: String(gzip) })}`,
+};
+
+// Background jobs API
+export const jobsApi = {
+  // List recent jobs
+  list: (filter: { type?: JobType; status?: JobStatus } = {}) =>
+    fetchApi<{ data: JobDTO[]; total: number }>(`/jobs?${new URLSearchParams(filter)}`),
+
+  // Queue a report or export
+  create: (request: JobRequest) =>
+    fetchApi<JobDTO>('/jobs', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }),
+
+  // Poll a job
+  getById: (id: number) => fetchApi<JobDTO>(`/jobs/${id}`),
+
+  // File written by a succeeded export job
+  downloadUrl: (id: number) => `${API_BASE}/jobs/${id}/download`,
+};
+
+// Test fixtures API
+export const fixturesApi = {
+  list: () => fetchApi<{ data: FixtureDTO[]; total: number }>('/debug/fixtures'),
+
+  // Create an isolated data set; the response lists the ids of its rows
+  create: (request: FixtureRequest) =>
+    fetchApi<FixtureDTO>('/debug/fixtures', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }),
+
+  getByName: (name: string) => fetchApi<FixtureDTO>(`/debug/fixtures/${name}`),
+
+  // Delete every row the fixture created
+  teardown: (name: string) => fetchApi<void>(`/debug/fixtures/${name}`, { method: 'DELETE' }),
+
+  teardownAll: () => fetchApi<{ deleted: string[] }>('/debug/fixtures', { method: 'DELETE' }),
+};
+
+// Fault injection API
+export const faultsApi = {
+  list: () => fetchApi<{ data: FaultRuleDTO[]; total: number }>('/debug/faults'),
+
+  // Inject a fault into matching /api requests
+  create: (rule: FaultRuleRequest) =>
+    fetchApi<FaultRuleDTO>('/debug/faults', {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    }),
+
+  delete: (id: string) => fetchApi<void>(`/debug/faults/${id}`, { method: 'DELETE' }),
+
+  clear: () => fetchApi<{ deleted: number }>('/debug/faults', { method: 'DELETE' }),
+};
+
+// Database chaos API
+export const dbChaosApi = {
+  // Run a lock, pool-exhaustion, deadlock or statement-timeout scenario (options per scenario)
+  run: (scenario: DbChaosScenario, options: Record<string, unknown> = {}) =>
+    fetchApi<DbChaosResultDTO>(`/debug/db-chaos/${scenario}`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    }),
+};
+
+// Downstream services API (stubs called during checkout)
+export const downstreamApi = {
+  list: () => fetchApi<{ data: DownstreamServiceDTO[]; total: number }>('/debug/downstream'),
+
+  // Change a stub's latency and error profile
+  updateProfile: (service: DownstreamService, profile: StubProfileInput) =>
+    fetchApi<DownstreamServiceDTO>(`/debug/downstream/${service}`, {
+      method: 'PATCH',
+      body: JSON.stringify(profile),
+    }),
+
+  reset: () => fetchApi<{ data: DownstreamServiceDTO[] }>('/debug/downstream/reset', { method: 'POST' }),
+};
+
+// Load runs API
+export const loadRunsApi = {
+  // List running and recent load runs
+  list: () => fetchApi<{ data: LoadRunDTO[]; total: number }>('/load-runs'),
+
+  // Start a load run against a scenario endpoint
+  start: (params: LoadRunRequest) =>
+    fetchApi<LoadRunDTO>('/load-runs', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    }),
+
+  // Get a single load run
+  getById: (id: string) => fetchApi<LoadRunDTO>(`/load-runs/${id}`),
+
+  // Cancel a running load run
+  cancel: (id: string) => fetchApi<LoadRunDTO>(`/load-runs/${id}/cancel`, { method: 'POST' }),
 };
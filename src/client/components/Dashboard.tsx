@@ -2,16 +2,27 @@ import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { debugApi } from '../api';
 import { addBreadcrumb } from '../sentry';
+import type { SeedRunDTO } from '@shared/types';
 
 interface HealthStatus {
   status: string;
   sentry: unknown;
   environment: string;
+  latestSeedRun: SeedRunDTO | null;
   timestamp: string;
 }
 
+// e.g. "small (seed 42) + medium", or "unseeded" runs that cannot be reproduced
+function describeDataset(runs: SeedRunDTO[]) {
+  return runs
+    .map((run) => `${run.size} (${run.seed === null ? 'unseeded' : `seed ${run.seed}`}${run.status === 'completed' ? '' : `, ${run.status}`})`)
+    .join(' + ');
+}
+
 export default function Dashboard() {
   const [health, setHealth] = useState<HealthStatus | null>(null);
+  // null when the seed runs cannot be read (e.g. the database is down)
+  const [dataset, setDataset] = useState<SeedRunDTO[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -23,8 +34,12 @@ export default function Dashboard() {
   const fetchHealth = async () => {
     try {
       setLoading(true);
-      const data = await debugApi.health();
+      const [data, runs] = await Promise.all([
+        debugApi.health(),
+        debugApi.dataset().then((response) => response.data, () => null),
+      ]);
       setHealth(data);
+      setDataset(runs);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch health');
@@ -72,6 +87,12 @@ export default function Dashboard() {
               </div>
               <div className="stat-label">Environment</div>
             </div>
+            <div className="stat-card">
+              <div className="stat-value" style={{ fontSize: '1rem' }}>
+                {dataset === null ? 'unavailable' : dataset.length ? describeDataset(dataset) : 'not seeded'}
+              </div>
+              <div className="stat-label">Dataset</div>
+            </div>
             <div className="stat-card">
               <div className="stat-value" style={{ fontSize: '1rem' }}>
                 {new Date(health.timestamp).toLocaleTimeString()}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import type { DbStatementDTO, DbStatsOrder } from '@shared/types';
+import { debugApi } from '../api';
+import { addBreadcrumb } from '../sentry';
+
+const ORDER_LABELS: Record<DbStatsOrder, string> = {
+  total: 'Total Time',
+  mean: 'Mean Time',
+  calls: 'Calls',
+  rows: 'Rows',
+};
+
+export default function DbStats() {
+  const [statements, setStatements] = useState<DbStatementDTO[]>([]);
+  const [orderBy, setOrderBy] = useState<DbStatsOrder>('total');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    addBreadcrumb('navigation', 'Viewed database stats');
+  }, []);
+
+  useEffect(() => {
+    fetchStats();
+  }, [orderBy]);
+
+  const fetchStats = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await debugApi.getDbStats(orderBy, 25);
+      setStatements(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch database stats');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      setLoading(true);
+      await debugApi.resetDbStats();
+      addBreadcrumb('user', 'Reset pg_stat_statements');
+      await fetchStats();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset database stats');
+      setLoading(false);
+    }
+  };
+
+  const totalTime = statements.reduce((sum, statement) => sum + statement.totalTime, 0);
+  const totalCalls = statements.reduce((sum, statement) => sum + statement.calls, 0);
+
+  return (
+    <div className="page">
+      <div className="page-header">
+        <h2 className="page-title">Database Stats</h2>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+          <div className="toggle-group">
+            {(Object.keys(ORDER_LABELS) as DbStatsOrder[]).map((key) => (
+              <button
+                key={key}
+                className={`toggle-btn ${orderBy === key ? 'active' : ''}`}
+                onClick={() => setOrderBy(key)}
+              >
+                {ORDER_LABELS[key]}
+              </button>
+            ))}
+          </div>
+          <button onClick={fetchStats} className="btn btn-secondary" disabled={loading}>
+            Refresh
+          </button>
+          <button onClick={handleReset} className="btn btn-danger" disabled={loading}>
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <p className="page-description">
+        Top statements from <code>pg_stat_statements</code>. Reset the stats, run tests from the
+        Slow Queries page, then refresh to see what each endpoint actually cost the database.
+      </p>
+
+      {error && <div className="alert alert-danger">{error}</div>}
+
+      <div className="stats-grid" style={{ marginBottom: '1.5rem' }}>
+        <div className="stat-card">
+          <div className="stat-value">{statements.length}</div>
+          <div className="stat-label">Statements Shown</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-value">{totalCalls}</div>
+          <div className="stat-label">Calls</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-value">{(totalTime / 1000).toFixed(2)}s</div>
+          <div className="stat-label">Total Time</div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="loading">
+          <div className="spinner"></div>
+          Loading statements...
+        </div>
+      ) : (
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>Query</th>
+                <th>Calls</th>
+                <th>Total</th>
+                <th>Mean</th>
+                <th>Rows</th>
+                <th>Cache Hit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statements.map((statement) => {
+                const blocks = statement.sharedBlocksHit + statement.sharedBlocksRead;
+                return (
+                  <tr key={statement.queryId}>
+                    <td style={{ fontFamily: 'monospace', fontSize: '0.75rem', maxWidth: '40rem', wordBreak: 'break-all' }}>
+                      {statement.query}
+                    </td>
+                    <td>{statement.calls}</td>
+                    <td>
+                      <span className={`timing ${statement.totalTime > 2000 ? 'timing-slow' : ''}`}>
+                        {statement.totalTime.toFixed(1)}ms
+                      </span>
+                    </td>
+                    <td>
+                      <span className={`timing ${statement.meanTime > 500 ? 'timing-slow' : statement.meanTime < 10 ? 'timing-fast' : ''}`}>
+                        {statement.meanTime.toFixed(2)}ms
+                      </span>
+                    </td>
+                    <td>{statement.rows}</td>
+                    <td>{blocks > 0 ? `${((statement.sharedBlocksHit / blocks) * 100).toFixed(1)}%` : '-'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { useState } from 'react';
-import { usersApi, ordersApi, productsApi, debugApi } from '../api';
+import { useState, useEffect } from 'react';
+import type { ScenarioDTO, ScenarioEndpointDTO, TeachingIndexDTO } from '@shared/types';
+import { debugApi, scenariosApi } from '../api';
 import { addBreadcrumb } from '../sentry';
 
 interface TestResult {
@@ -10,10 +11,57 @@ interface TestResult {
   error?: string;
 }
 
+function getWarning(data: unknown): string | undefined {
+  if (data && typeof data === 'object' && 'warning' in data && typeof data.warning === 'string') {
+    return data.warning;
+  }
+  return undefined;
+}
+
 export default function SlowQueryDemo() {
   const [results, setResults] = useState<TestResult[]>([]);
   const [running, setRunning] = useState(false);
   const [currentTest, setCurrentTest] = useState<string | null>(null);
+  const [scenarios, setScenarios] = useState<ScenarioDTO[]>([]);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  const [indexes, setIndexes] = useState<TeachingIndexDTO[]>([]);
+  const [indexBusy, setIndexBusy] = useState<string | null>(null);
+  const [indexError, setIndexError] = useState<string | null>(null);
+
+  useEffect(() => {
+    scenariosApi
+      .list()
+      .then((response) => setScenarios(response.data))
+      .catch((err) => setCatalogError(err instanceof Error ? err.message : 'Failed to load scenarios'));
+    fetchIndexes();
+  }, []);
+
+  const fetchIndexes = async () => {
+    try {
+      const response = await debugApi.listIndexes();
+      setIndexes(response.data);
+      setIndexError(null);
+    } catch (err) {
+      setIndexError(err instanceof Error ? err.message : 'Failed to load indexes');
+    }
+  };
+
+  const toggleIndex = async (index: TeachingIndexDTO) => {
+    setIndexBusy(index.name);
+    addBreadcrumb('test', `${index.exists ? 'Dropping' : 'Creating'} index ${index.name}`);
+    try {
+      if (index.exists) {
+        await debugApi.dropIndex(index.name);
+      } else {
+        await debugApi.createIndex(index.name);
+      }
+      await fetchIndexes();
+    } catch (err) {
+      setIndexError(err instanceof Error ? err.message : 'Failed to update index');
+    } finally {
+      setIndexBusy(null);
+    }
+  };
 
   const addResult = (result: TestResult) => {
     setResults((prev) => [...prev, result]);
@@ -21,7 +69,7 @@ export default function SlowQueryDemo() {
 
   const runTest = async (
     name: string,
-    testFn: () => Promise<{ warning?: string }>
+    testFn: () => Promise<unknown>
   ): Promise<void> => {
     setCurrentTest(name);
     const start = performance.now();
@@ -32,7 +80,7 @@ export default function SlowQueryDemo() {
         name,
         timing: elapsed,
         success: true,
-        warning: data.warning,
+        warning: getWarning(data),
       });
       addBreadcrumb('test', `Completed: ${name}`, { timing: elapsed });
     } catch (err) {
@@ -49,30 +97,20 @@ export default function SlowQueryDemo() {
   const runAllTests = async () => {
     setRunning(true);
     setResults([]);
-    addBreadcrumb('test', 'Started slow query demo tests');
-
-    // Users tests
-    await runTest('Users: Load All (N+1)', () => usersApi.getAll());
-    await runTest('Users: Paginated (Optimized)', () => usersApi.getPaginated(1, 20));
-    await runTest('Users: Export All', () => usersApi.exportAll());
-    await runTest('Users: Search by Date', () =>
-      usersApi.searchByDate('2023-01-01', '2024-12-31')
-    );
+    addBreadcrumb('test', 'Started slow query demo tests', { scenarioCount: scenarios.length });
 
-    // Orders tests
-    await runTest('Orders: Search (No Index)', () =>
-      ordersApi.search({ status: 'pending', minAmount: 100 })
-    );
-    await runTest('Orders: Daily Report', () => ordersApi.getDailyReport(30));
-
-    // Products tests
-    await runTest('Products: LIKE Search', () => productsApi.search('test'));
-    await runTest('Products: Slow Report (Cartesian)', () => productsApi.getReport());
-    await runTest('Products: Fast Report (Optimized)', () => productsApi.getReportOptimized());
-
-    // Debug slow endpoint
-    await runTest('Debug: Custom Slow (2s)', () => debugApi.testSlow(2000));
-    await runTest('Debug: Memory Intensive (10MB)', () => debugApi.testMemory(10));
+    // Every scenario in the server-side registry, slow variant first
+    for (const scenario of scenarios) {
+      await runTest(`${scenario.title} (Slow)`, () =>
+        scenariosApi.run(scenario.slow.url, scenario.slow.method)
+      );
+      const optimized = scenario.optimized;
+      if (optimized) {
+        await runTest(`${scenario.title} (Optimized)`, () =>
+          scenariosApi.run(optimized.url, optimized.method)
+        );
+      }
+    }
 
     setCurrentTest(null);
     setRunning(false);
@@ -81,7 +119,7 @@ export default function SlowQueryDemo() {
 
   const runSingleTest = async (
     name: string,
-    testFn: () => Promise<{ warning?: string }>
+    testFn: () => Promise<unknown>
   ) => {
     setRunning(true);
     setResults([]);
@@ -103,7 +141,7 @@ export default function SlowQueryDemo() {
         <button
           onClick={runAllTests}
           className="btn btn-primary"
-          disabled={running}
+          disabled={running || scenarios.length === 0}
         >
           {running ? 'Running...' : 'Run All Tests'}
         </button>
@@ -114,6 +152,8 @@ export default function SlowQueryDemo() {
         Watch the timing differences and check Sentry for detailed transaction traces.
       </p>
 
+      {catalogError && <div className="alert alert-danger">{catalogError}</div>}
+
       {/* Quick Tests */}
       <div className="card">
         <h3 className="card-title">Quick Tests</h3>
@@ -121,45 +161,38 @@ export default function SlowQueryDemo() {
           Run individual tests to compare slow vs fast implementations.
         </p>
         <div className="card-grid">
-          <div className="demo-section">
-            <div className="demo-section-title">Users: N+1 vs Paginated</div>
-            <div className="btn-group" style={{ marginTop: '0.5rem' }}>
-              <button
-                onClick={() => runSingleTest('Users: N+1', () => usersApi.getAll())}
-                className="btn btn-warning btn-sm"
-                disabled={running}
-              >
-                N+1 (Slow)
-              </button>
-              <button
-                onClick={() => runSingleTest('Users: Paginated', () => usersApi.getPaginated(1, 20))}
-                className="btn btn-success btn-sm"
-                disabled={running}
-              >
-                Paginated (Fast)
-              </button>
-            </div>
-          </div>
-
-          <div className="demo-section">
-            <div className="demo-section-title">Products: Report Comparison</div>
-            <div className="btn-group" style={{ marginTop: '0.5rem' }}>
-              <button
-                onClick={() => runSingleTest('Products: Cartesian', () => productsApi.getReport())}
-                className="btn btn-warning btn-sm"
-                disabled={running}
-              >
-                Cartesian (Slow)
-              </button>
-              <button
-                onClick={() => runSingleTest('Products: Optimized', () => productsApi.getReportOptimized())}
-                className="btn btn-success btn-sm"
-                disabled={running}
-              >
-                Optimized (Fast)
-              </button>
-            </div>
-          </div>
+          {scenarios
+            .filter((scenario): scenario is ScenarioDTO & { optimized: ScenarioEndpointDTO } =>
+              scenario.optimized !== null
+            )
+            .map((scenario) => (
+              <div key={scenario.id} className="demo-section">
+                <div className="demo-section-title">{scenario.title}</div>
+                <div className="demo-section-description">{scenario.description}</div>
+                <div className="btn-group" style={{ marginTop: '0.5rem' }}>
+                  <button
+                    onClick={() => runSingleTest(`${scenario.title} (Slow)`, () =>
+                      scenariosApi.run(scenario.slow.url, scenario.slow.method)
+                    )}
+                    className="btn btn-warning btn-sm"
+                    disabled={running}
+                    title={scenario.slow.queryShape.description}
+                  >
+                    Slow
+                  </button>
+                  <button
+                    onClick={() => runSingleTest(`${scenario.title} (Optimized)`, () =>
+                      scenariosApi.run(scenario.optimized.url, scenario.optimized.method)
+                    )}
+                    className="btn btn-success btn-sm"
+                    disabled={running}
+                    title={scenario.optimized.queryShape.description}
+                  >
+                    Optimized
+                  </button>
+                </div>
+              </div>
+            ))}
 
           <div className="demo-section">
             <div className="demo-section-title">Custom Delay Test</div>
@@ -217,6 +250,54 @@ export default function SlowQueryDemo() {
         </div>
       </div>
 
+      {/* Teaching Indexes */}
+      <div className="card">
+        <h3 className="card-title">Teaching Indexes</h3>
+        <p className="demo-section-description">
+          These indexes are intentionally missing from the models. Create one, re-run the
+          matching test, then drop it again to compare timings.
+        </p>
+        {indexError && <div className="alert alert-danger">{indexError}</div>}
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>Index</th>
+                <th>Column</th>
+                <th>Status</th>
+                <th>Size</th>
+                <th>Build Time</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {indexes.map((index) => (
+                <tr key={index.name}>
+                  <td title={index.description}>{index.name}</td>
+                  <td>{index.table}.{index.column} ({index.method})</td>
+                  <td>
+                    <span className={`badge ${index.exists && index.valid ? 'badge-delivered' : 'badge-pending'}`}>
+                      {index.exists ? (index.valid ? 'Present' : 'Invalid') : 'Missing'}
+                    </span>
+                  </td>
+                  <td>{index.size ?? '-'}</td>
+                  <td>{index.lastBuildMs !== null ? `${index.lastBuildMs.toFixed(0)}ms` : '-'}</td>
+                  <td>
+                    <button
+                      onClick={() => toggleIndex(index)}
+                      className={`btn btn-sm ${index.exists ? 'btn-danger' : 'btn-success'}`}
+                      disabled={running || indexBusy !== null}
+                    >
+                      {indexBusy === index.name ? 'Working...' : index.exists ? 'Drop' : 'Create'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
       {/* Current Test */}
       {currentTest && (
         <div className="alert alert-info">
@@ -0,0 +1,72 @@
+import { withSpan } from './telemetry.js';
+import { requestJson } from './httpClient.js';
+import { STUB_BASE_URL } from './stubServices.js';
+import { addBreadcrumb } from './sentry.js';
+import type { OrderLine } from './inventory.js';
+import type { CheckoutDTO, DownstreamService } from '../shared/types.js';
+
+// Checkout calls out to payment, shipping and tax after an order is stored.
+// Each URL can point at a real service; by default they hit the local stubs.
+
+const CHECKOUT_ENABLED = !['false', '0'].includes((process.env.CHECKOUT_ENABLED || '').toLowerCase());
+
+const SERVICE_URLS: Record<DownstreamService, string> = {
+  payment: process.env.PAYMENT_SERVICE_URL || `${STUB_BASE_URL}/payment`,
+  shipping: process.env.SHIPPING_SERVICE_URL || `${STUB_BASE_URL}/shipping`,
+  tax: process.env.TAX_SERVICE_URL || `${STUB_BASE_URL}/tax`,
+};
+
+export function isCheckoutEnabled() {
+  return CHECKOUT_ENABLED;
+}
+
+export function getServiceUrl(service: DownstreamService) {
+  return SERVICE_URLS[service];
+}
+
+/**
+ * Quote shipping and tax in parallel, then charge the order total. The charge
+ * carries the order as Idempotency-Key, so retries never charge twice.
+ * Throws DownstreamError when a service fails for good.
+ */
+export async function checkoutOrder(orderId: number, lines: OrderLine[], subtotal: number): Promise<CheckoutDTO> {
+  return withSpan(
+    'checkout',
+    'function',
+    async () => {
+      const [shipping, tax] = await Promise.all([
+        requestJson<CheckoutDTO['shipping']>({
+          service: 'shipping',
+          method: 'POST',
+          url: `${SERVICE_URLS.shipping}/quotes`,
+          body: { items: lines },
+        }),
+        requestJson<CheckoutDTO['tax']>({
+          service: 'tax',
+          method: 'POST',
+          url: `${SERVICE_URLS.tax}/calculations`,
+          body: { amount: subtotal },
+        }),
+      ]);
+
+      const total = Math.round((subtotal + shipping.amount + tax.amount) * 100) / 100;
+      addBreadcrumb('checkout', 'Charging order', { orderId, total });
+
+      const payment = await requestJson<CheckoutDTO['payment']>({
+        service: 'payment',
+        method: 'POST',
+        url: `${SERVICE_URLS.payment}/charges`,
+        headers: { 'Idempotency-Key': `order-${orderId}` },
+        body: { orderId, amount: total, currency: 'usd' },
+      });
+
+      return {
+        payment: { id: payment.id, status: payment.status, amount: payment.amount, currency: payment.currency },
+        shipping: { carrier: shipping.carrier, amount: shipping.amount, estimatedDays: shipping.estimatedDays },
+        tax: { rate: tax.rate, amount: tax.amount },
+        total,
+      };
+    },
+    { 'order.id': orderId }
+  );
+}
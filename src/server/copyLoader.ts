@@ -0,0 +1,63 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { Client } from 'pg';
+import { from as copyFrom } from 'pg-copy-streams';
+import { sequelize } from './models/index.js';
+import { toCsvField } from './exporter.js';
+
+// Bulk loading with COPY ... FROM STDIN on a raw pg connection borrowed from
+// Sequelize's pool (used by the seeder; Sequelize has no COPY support)
+
+export interface CopyTarget {
+  table: string;
+  columns: string[];
+  rows: unknown[][];
+}
+
+/**
+ * Run fn inside BEGIN/COMMIT on a pooled connection, rolling back on error
+ */
+export async function withCopyTransaction<T>(fn: (client: Client) => Promise<T>): Promise<T> {
+  const client = (await sequelize.connectionManager.getConnection({ type: 'write' })) as Client;
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    sequelize.connectionManager.releaseConnection(client);
+  }
+}
+
+// Stream rows into a table as CSV
+export async function copyRows(client: Client, { table, columns, rows }: CopyTarget): Promise<void> {
+  if (rows.length === 0) {
+    return;
+  }
+  const columnList = columns.map((column) => `"${column}"`).join(', ');
+  const csv = rows.map((row) => `${row.map(toCsvField).join(',')}\n`).join('');
+
+  await pipeline(
+    Readable.from([csv]),
+    client.query(copyFrom(`COPY "${table}" (${columnList}) FROM STDIN WITH (FORMAT csv)`))
+  );
+}
+
+/**
+ * Reserve `count` consecutive ids from a table's serial sequence, so rows
+ * can be written with explicit ids (COPY cannot return generated ones).
+ * Rows inserted by other sessions between nextval and setval would land
+ * inside the block, so don't seed while the app is writing to the table.
+ */
+export async function reserveIds(client: Client, table: string, count: number): Promise<number> {
+  const { rows } = await client.query<{ first: string }>(
+    'SELECT nextval(pg_get_serial_sequence($1, \'id\')) AS first',
+    [table]
+  );
+  const first = Number(rows[0].first);
+  await client.query('SELECT setval(pg_get_serial_sequence($1, \'id\'), $2)', [table, first + count - 1]);
+  return first;
+}
@@ -1,4 +1,11 @@
 import { sequelize, initModels } from './models/index.js';
+import { migrate } from './migrator.js';
+import { createLogger } from './logger.js';
+
+// Set to false when migrations are run separately (npm run migrate) before deploys
+const MIGRATE_ON_START = ['true', '1', 'yes'].includes((process.env.MIGRATE_ON_START || 'true').toLowerCase());
+
+const log = createLogger('database');
 
 export async function initDatabase() {
   try {
@@ -7,23 +14,22 @@ export async function initDatabase() {
 
     // Test connection
     await sequelize.authenticate();
-    console.log('[Database] Connection established successfully');
+    log.info('Connection established successfully');
 
-    // Sync database (create tables if they don't exist)
-    // In production, you'd use migrations instead
-    if (process.env.NODE_ENV !== 'production') {
-      await sequelize.sync({ alter: true });
-      console.log('[Database] Models synchronized');
+    // Apply pending schema migrations (safe with several replicas starting at once)
+    if (MIGRATE_ON_START) {
+      const applied = await migrate();
+      log.info(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Schema up to date', { applied });
     }
 
     return true;
   } catch (error) {
-    console.error('[Database] Unable to connect:', error);
+    log.error('Unable to connect', { err: error });
     throw error;
   }
 }
 
 export async function closeDatabase() {
   await sequelize.close();
-  console.log('[Database] Connection closed');
+  log.info('Connection closed');
 }
@@ -0,0 +1,265 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { QueryTypes, type Transaction } from 'sequelize';
+import { sequelize } from './models/index.js';
+import { Sentry, addBreadcrumb, isSentryEnabled } from './sentry.js';
+import { createLogger } from './logger.js';
+import type { DbChaosErrorDTO, DbChaosResultDTO, DbChaosScenario } from '../shared/types.js';
+
+// Lock contention and connection starvation on purpose. Every error a
+// scenario provokes is captured in Sentry, tagged with the scenario, the
+// Sequelize error class and the Postgres SQLSTATE.
+
+const log = createLogger('db-chaos');
+
+/**
+ * The scenario needs rows that are not there (e.g. deadlock on an empty
+ * orders table); routes answer 404
+ */
+export class ChaosTargetMissingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChaosTargetMissingError';
+  }
+}
+
+// Resolves once arrive() was called `count` times. Failed participants arrive
+// too (a second arrival is harmless), so nobody waits on a transaction that died.
+function createLatch(count: number) {
+  let arrived = 0;
+  let release!: () => void;
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  if (count <= 0) {
+    release();
+  }
+  return {
+    done,
+    arrive: () => {
+      arrived += 1;
+      if (arrived === count) {
+        release();
+      }
+    },
+  };
+}
+
+function captureChaosError(scenario: DbChaosScenario, error: unknown): DbChaosErrorDTO {
+  const err = error instanceof Error ? error : new Error(String(error));
+  // DatabaseError keeps the pg error (with its SQLSTATE) as parent
+  const sqlState = (err as Error & { parent?: { code?: string } }).parent?.code ?? null;
+
+  log.warn(`${scenario}: ${err.name}`, { scenario, sqlState, err });
+  const sentryEventId = isSentryEnabled()
+    ? Sentry.captureException(err, {
+        tags: { 'chaos.scenario': scenario, 'db.error': err.name, ...(sqlState && { 'db.sqlstate': sqlState }) },
+      })
+    : undefined;
+
+  return { name: err.name, sqlState, message: err.message, sentryEventId };
+}
+
+async function runScenario(
+  scenario: DbChaosScenario,
+  fn: (capture: (error: unknown) => void) => Promise<Record<string, unknown>>
+): Promise<DbChaosResultDTO> {
+  const start = performance.now();
+  const errors: DbChaosErrorDTO[] = [];
+
+  addBreadcrumb('db-chaos', `Running ${scenario}`, undefined, 'warning');
+  const details = await fn((error) => errors.push(captureChaosError(scenario, error)));
+
+  return { scenario, durationMs: Math.round(performance.now() - start), errors, details };
+}
+
+async function setLocal(setting: 'lock_timeout' | 'statement_timeout', ms: number, transaction: Transaction) {
+  // SET takes no bind parameters; ms is a validated integer
+  await sequelize.query(`SET LOCAL ${setting} = ${Math.floor(ms)}`, { transaction });
+}
+
+/**
+ * Run a query that exceeds statement_timeout, so it fails with the genuine
+ * Postgres error (57014, "canceling statement due to statement timeout")
+ */
+export async function runIntoStatementTimeout(timeoutMs: number) {
+  await sequelize.transaction(async (transaction) => {
+    await setLocal('statement_timeout', timeoutMs, transaction);
+    await sequelize.query('SELECT pg_sleep(:seconds)', {
+      replacements: { seconds: timeoutMs / 1000 + 1 },
+      transaction,
+    });
+  });
+}
+
+/**
+ * Hold a row lock (FOR UPDATE) or an ACCESS EXCLUSIVE table lock for holdMs
+ * while the transaction sits idle, as an app doing slow work mid-transaction
+ * would. Requests touching the target meanwhile queue behind it; the
+ * contenders give up after lockTimeoutMs with 55P03 (lock_not_available).
+ */
+export async function holdLock(options: {
+  mode: 'row' | 'table';
+  table: 'orders' | 'products' | 'users';
+  id?: number;
+  holdMs: number;
+  contenders: number;
+  lockTimeoutMs: number;
+}): Promise<DbChaosResultDTO> {
+  const { mode, table, holdMs, contenders, lockTimeoutMs } = options;
+
+  let id = options.id ?? null;
+  if (mode === 'row') {
+    const [row] = await sequelize.query<{ id: number }>(
+      id ? `SELECT id FROM "${table}" WHERE id = :id` : `SELECT id FROM "${table}" ORDER BY id LIMIT 1`,
+      { type: QueryTypes.SELECT, replacements: { id } }
+    );
+    if (!row) {
+      throw new ChaosTargetMissingError(id ? `No ${table} row with id ${id}` : `No rows in ${table} to lock (seed first)`);
+    }
+    id = row.id;
+  }
+
+  return runScenario('lock', async (capture) => {
+    const locked = createLatch(1);
+
+    const holder = sequelize
+      .transaction(async (transaction) => {
+        try {
+          if (mode === 'row') {
+            await sequelize.query(`SELECT id FROM "${table}" WHERE id = :id FOR UPDATE`, {
+              replacements: { id },
+              transaction,
+            });
+          } else {
+            await sequelize.query(`LOCK TABLE "${table}" IN ACCESS EXCLUSIVE MODE`, { transaction });
+          }
+        } finally {
+          locked.arrive();
+        }
+        log.info(`Holding ${mode} lock on ${table} for ${holdMs}ms`, { mode, table, id, holdMs });
+        await sleep(holdMs);
+      })
+      .catch((error) => {
+        locked.arrive();
+        capture(error);
+      });
+
+    await locked.done;
+    const contenderWaitsMs = await Promise.all(
+      Array.from({ length: contenders }, async () => {
+        const start = performance.now();
+        await sequelize
+          .transaction(async (transaction) => {
+            await setLocal('lock_timeout', lockTimeoutMs, transaction);
+            // Row mode writes the locked row; an ACCESS EXCLUSIVE lock blocks even reads
+            if (mode === 'row') {
+              await sequelize.query(`UPDATE "${table}" SET "updatedAt" = NOW() WHERE id = :id`, {
+                replacements: { id },
+                transaction,
+              });
+            } else {
+              await sequelize.query(`SELECT COUNT(*) FROM "${table}"`, { transaction });
+            }
+          })
+          .catch(capture);
+        return Math.round(performance.now() - start);
+      })
+    );
+
+    await holder;
+    return { mode, table, id, holdMs, lockTimeoutMs, contenderWaitsMs };
+  });
+}
+
+/**
+ * Open `connections` transactions that each sleep for holdMs, then time one
+ * more query. While the pool (max 10) is drained every request waits for a
+ * connection; past the pool's acquire timeout (30s) they fail with
+ * SequelizeConnectionAcquireTimeoutError.
+ */
+export async function exhaustPool(options: { connections: number; holdMs: number }): Promise<DbChaosResultDTO> {
+  const { connections, holdMs } = options;
+  const poolMax = sequelize.config.pool?.max ?? 10;
+
+  return runScenario('pool-exhaustion', async (capture) => {
+    const acquired = createLatch(Math.min(connections, poolMax));
+
+    const holders = Array.from({ length: connections }, () =>
+      sequelize
+        .transaction(async (transaction) => {
+          acquired.arrive();
+          await sequelize.query('SELECT pg_sleep(:seconds)', { replacements: { seconds: holdMs / 1000 }, transaction });
+        })
+        .catch((error) => {
+          acquired.arrive();
+          capture(error);
+        })
+    );
+
+    // Once the pool is drained, see how long an ordinary query waits
+    await acquired.done;
+    const probeStart = performance.now();
+    let probeSucceeded = true;
+    await sequelize.query('SELECT 1').catch((error) => {
+      probeSucceeded = false;
+      capture(error);
+    });
+    const probeWaitMs = Math.round(performance.now() - probeStart);
+
+    await Promise.all(holders);
+    return { connections, poolMax, holdMs, probeWaitMs, probeSucceeded };
+  });
+}
+
+/**
+ * Two transactions update the same two orders in opposite order. Postgres
+ * notices the cycle after deadlock_timeout (1s by default) and aborts one
+ * with 40P01; the other commits.
+ */
+export async function triggerDeadlock(orderIds?: [number, number]): Promise<DbChaosResultDTO> {
+  const rows = await sequelize.query<{ id: number }>(
+    orderIds ? 'SELECT id FROM orders WHERE id IN (:orderIds) ORDER BY id' : 'SELECT id FROM orders ORDER BY id LIMIT 2',
+    { type: QueryTypes.SELECT, replacements: { orderIds: orderIds ?? [] } }
+  );
+  if (rows.length < 2) {
+    throw new ChaosTargetMissingError(
+      orderIds ? `Orders ${orderIds.join(' and ')} must both exist` : 'Need at least two orders (seed first)'
+    );
+  }
+  const [first, second] = orderIds ?? [rows[0].id, rows[1].id];
+
+  return runScenario('deadlock', async (capture) => {
+    const bothLocked = createLatch(2);
+    const touchOrder = (id: number, transaction: Transaction) =>
+      sequelize.query('UPDATE orders SET "updatedAt" = NOW() WHERE id = :id', { replacements: { id }, transaction });
+
+    const updateBoth = (a: number, b: number) =>
+      sequelize
+        .transaction(async (transaction) => {
+          try {
+            await touchOrder(a, transaction);
+          } finally {
+            bothLocked.arrive();
+          }
+          // Each transaction holds its first row before reaching for the other's
+          await bothLocked.done;
+          await touchOrder(b, transaction);
+          return 'committed';
+        })
+        .catch((error) => {
+          bothLocked.arrive();
+          capture(error);
+          return 'aborted';
+        });
+
+    const outcomes = await Promise.all([updateBoth(first, second), updateBoth(second, first)]);
+    return { orderIds: [first, second], outcomes };
+  });
+}
+
+export async function hitStatementTimeout(timeoutMs: number): Promise<DbChaosResultDTO> {
+  return runScenario('statement-timeout', async (capture) => {
+    await runIntoStatementTimeout(timeoutMs).catch(capture);
+    return { timeoutMs };
+  });
+}
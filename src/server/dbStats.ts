@@ -0,0 +1,85 @@
+import { QueryTypes } from 'sequelize';
+import { sequelize } from './models/index.js';
+import type { DbStatementDTO, DbStatsOrder } from '../shared/types.js';
+
+const ORDER_COLUMNS: Record<DbStatsOrder, string> = {
+  total: 'total_exec_time',
+  mean: 'mean_exec_time',
+  calls: 'calls',
+  rows: 'rows',
+};
+
+/**
+ * Thrown when pg_stat_statements is not preloaded (it needs
+ * shared_preload_libraries, which the k8s postgres sidecar sets)
+ */
+export class DbStatsUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super(`pg_stat_statements is not available: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'DbStatsUnavailableError';
+  }
+}
+
+async function ensureExtension() {
+  try {
+    await sequelize.query('CREATE EXTENSION IF NOT EXISTS pg_stat_statements');
+    // Fails with "must be loaded via shared_preload_libraries" when not preloaded
+    await sequelize.query('SELECT 1 FROM pg_stat_statements LIMIT 1');
+  } catch (error) {
+    throw new DbStatsUnavailableError(error);
+  }
+}
+
+/**
+ * Top statements for the current database ordered by the chosen cost column
+ */
+export async function getTopStatements(orderBy: DbStatsOrder, limit: number): Promise<DbStatementDTO[]> {
+  // The column is interpolated into the SQL: never resolve it through the prototype (e.g. "toString")
+  if (!Object.hasOwn(ORDER_COLUMNS, orderBy)) {
+    throw new Error(`Unknown pg_stat_statements order "${orderBy}"`);
+  }
+
+  await ensureExtension();
+
+  const rows = await sequelize.query<{
+    queryId: string;
+    query: string;
+    calls: string;
+    totalTime: number;
+    meanTime: number;
+    rows: string;
+    sharedBlocksHit: string;
+    sharedBlocksRead: string;
+  }>(
+    `SELECT queryid::text AS "queryId",
+            query,
+            calls,
+            total_exec_time AS "totalTime",
+            mean_exec_time AS "meanTime",
+            rows,
+            shared_blks_hit AS "sharedBlocksHit",
+            shared_blks_read AS "sharedBlocksRead"
+     FROM pg_stat_statements
+     WHERE dbid = (SELECT oid FROM pg_database WHERE datname = current_database())
+     ORDER BY ${ORDER_COLUMNS[orderBy]} DESC
+     LIMIT :limit`,
+    { type: QueryTypes.SELECT, replacements: { limit } }
+  );
+
+  // bigint columns come back as strings from pg
+  return rows.map((row) => ({
+    queryId: row.queryId,
+    query: row.query,
+    calls: Number(row.calls),
+    totalTime: row.totalTime,
+    meanTime: row.meanTime,
+    rows: Number(row.rows),
+    sharedBlocksHit: Number(row.sharedBlocksHit),
+    sharedBlocksRead: Number(row.sharedBlocksRead),
+  }));
+}
+
+export async function resetStatements() {
+  await ensureExtension();
+  await sequelize.query('SELECT pg_stat_statements_reset()');
+}
@@ -0,0 +1,87 @@
+import { faker } from '@faker-js/faker';
+import type { SeedDistribution } from '../shared/types.js';
+
+// Samplers for skewed seed data. All randomness comes from faker, so
+// SEED_RANDOM reproduces skewed datasets exactly like uniform ones.
+
+/**
+ * Zipf(skew) sampler over items: the item at rank k (after a seeded shuffle,
+ * so popularity doesn't follow insertion order) is picked with weight
+ * 1 / k^skew. skew 0 is uniform; around 1 the top 1% of items takes a large
+ * share of all picks.
+ */
+export function createZipfSampler<T>(items: T[], skew: number): () => T {
+  const ranked = faker.helpers.shuffle(items);
+  if (skew === 0) {
+    return () => faker.helpers.arrayElement(ranked);
+  }
+
+  const cumulative = new Float64Array(ranked.length);
+  let total = 0;
+  for (let rank = 0; rank < ranked.length; rank++) {
+    total += 1 / (rank + 1) ** skew;
+    cumulative[rank] = total;
+  }
+
+  return () => {
+    const target = faker.number.float() * total;
+    // First rank whose cumulative weight exceeds the target
+    let low = 0;
+    let high = ranked.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (cumulative[middle] > target) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return ranked[low];
+  };
+}
+
+/**
+ * Up to `count` distinct picks from a sampler (fewer if popular items keep
+ * repeating, which is what skewed baskets look like anyway)
+ */
+export function sampleDistinct<T>(sample: () => T, count: number): T[] {
+  const picked = new Set<T>();
+  for (let attempt = 0; picked.size < count && attempt < count * 10; attempt++) {
+    picked.add(sample());
+  }
+  return [...picked];
+}
+
+/**
+ * Dates between from and to, denser in heavy months and weekdays
+ * (rejection sampling against the largest weight)
+ */
+export function createDateSampler(
+  from: Date,
+  to: Date,
+  seasonality: SeedDistribution['seasonality']
+): () => Date {
+  if (!seasonality) {
+    return () => faker.date.between({ from, to });
+  }
+
+  const maxWeight = Math.max(...seasonality.months) * Math.max(...seasonality.weekdays);
+  return () => {
+    while (true) {
+      const date = faker.date.between({ from, to });
+      const weight = seasonality.months[date.getUTCMonth()] * seasonality.weekdays[date.getUTCDay()];
+      if (faker.number.float() * maxWeight < weight) {
+        return date;
+      }
+    }
+  };
+}
+
+// Distribution with every skew switched off (SEED_DISTRIBUTION=uniform)
+export const UNIFORM_DISTRIBUTION: SeedDistribution = {
+  userSkew: 0,
+  productSkew: 0,
+  categorySkew: 0,
+  whales: { count: 0, ordersEach: 0 },
+  seasonality: null,
+};
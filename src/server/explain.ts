@@ -0,0 +1,192 @@
+import type { Request, Response, NextFunction } from 'express';
+import { QueryTypes } from 'sequelize';
+import { sequelize } from './models/index.js';
+import { getRequestContext } from './requestContext.js';
+import { stripSqlLogPrefix } from './queryStats.js';
+import { addBreadcrumb } from './sentry.js';
+import { createLogger } from './logger.js';
+import type { ExplainPlanDTO, ExplainReportDTO, SeqScanDTO } from '../shared/types.js';
+
+// Upper bound on distinct statements explained per request (N+1 endpoints issue hundreds)
+const EXPLAIN_MAX_STATEMENTS = parseInt(process.env.EXPLAIN_MAX_STATEMENTS || '50');
+
+const log = createLogger('explain');
+
+interface PlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  'Filter'?: string;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  'Rows Removed by Filter'?: number;
+  'Sort Method'?: string;
+  'Plans'?: PlanNode[];
+}
+
+interface ExplainOutput {
+  'Plan': PlanNode;
+  'Planning Time'?: number;
+  'Execution Time'?: number;
+}
+
+export function isExplainRequested(req: Request): boolean {
+  const flag = String(req.query.explain ?? req.get('x-explain') ?? '').toLowerCase();
+  return ['true', '1', 'yes'].includes(flag);
+}
+
+/**
+ * Remember a statement so it can be explained once the handler responds.
+ * Only plain SELECTs are captured: EXPLAIN ANALYZE executes the statement,
+ * and bind placeholders ($1) cannot be explained without their values.
+ */
+export function captureForExplain(sql: string) {
+  const context = getRequestContext();
+  if (!context?.explain) {
+    return;
+  }
+
+  const statement = stripSqlLogPrefix(sql).trim();
+  if (!/^(SELECT|WITH)\b/i.test(statement) || /\$\d+/.test(statement)) {
+    return;
+  }
+  if (!context.explain.includes(statement)) {
+    context.explain.push(statement);
+  }
+}
+
+function collectSeqScans(node: PlanNode, scans: SeqScanDTO[] = []): SeqScanDTO[] {
+  if (node['Node Type'] === 'Seq Scan' && node['Relation Name']) {
+    const loops = node['Actual Loops'] ?? 1;
+    scans.push({
+      relation: node['Relation Name'],
+      filter: node['Filter'] ?? null,
+      actualRows: (node['Actual Rows'] ?? 0) * loops,
+      rowsRemovedByFilter: (node['Rows Removed by Filter'] ?? 0) * loops,
+    });
+  }
+  for (const child of node['Plans'] || []) {
+    collectSeqScans(child, scans);
+  }
+  return scans;
+}
+
+function collectHints(node: PlanNode, seqScans: SeqScanDTO[]): string[] {
+  const hints: string[] = [];
+
+  for (const scan of seqScans) {
+    if (!scan.filter) {
+      continue;
+    }
+    if (/~~\*?/.test(scan.filter)) {
+      hints.push(
+        `LIKE/ILIKE filter on "${scan.relation}" cannot use a btree index; a pg_trgm GIN index would help: ${scan.filter}`
+      );
+    } else if (scan.rowsRemovedByFilter > scan.actualRows) {
+      hints.push(
+        `Seq Scan on "${scan.relation}" discarded ${scan.rowsRemovedByFilter} rows to return ${scan.actualRows}; consider an index for: ${scan.filter}`
+      );
+    }
+  }
+
+  const visit = (current: PlanNode) => {
+    if (current['Node Type'] === 'Sort' && current['Sort Method']?.includes('external')) {
+      hints.push('Sort spilled to disk; an index matching the ORDER BY (or more work_mem) would avoid it');
+    }
+    (current['Plans'] || []).forEach(visit);
+  };
+  visit(node);
+
+  return hints;
+}
+
+async function explainStatement(statement: string): Promise<ExplainPlanDTO> {
+  try {
+    // logging: false keeps EXPLAIN runs out of query accounting and capture
+    const rows = await sequelize.query<{ 'QUERY PLAN': ExplainOutput[] }>(
+      `EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON) ${statement}`,
+      { type: QueryTypes.SELECT, logging: false }
+    );
+    const output = rows[0]['QUERY PLAN'][0];
+    const seqScans = collectSeqScans(output['Plan']);
+
+    return {
+      statement,
+      planningTime: output['Planning Time'] ?? null,
+      executionTime: output['Execution Time'] ?? null,
+      plan: output['Plan'],
+      seqScans,
+      hints: collectHints(output['Plan'], seqScans),
+    };
+  } catch (error) {
+    return {
+      statement,
+      planningTime: null,
+      executionTime: null,
+      plan: null,
+      seqScans: [],
+      hints: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export async function explainStatements(statements: string[]): Promise<ExplainReportDTO> {
+  const selected = statements.slice(0, EXPLAIN_MAX_STATEMENTS);
+  const plans: ExplainPlanDTO[] = [];
+
+  // Sequential on purpose: ANALYZE timings are meaningless if the plans compete for the pool
+  for (const statement of selected) {
+    plans.push(await explainStatement(statement));
+  }
+
+  return { plans, skipped: statements.length - selected.length };
+}
+
+/**
+ * Express middleware enabling EXPLAIN capture for the request when asked for.
+ * The report is attached to the JSON response under `explain`.
+ */
+export function explainMiddleware(req: Request, res: Response, next: NextFunction) {
+  const context = getRequestContext();
+  if (!context || !isExplainRequested(req)) {
+    return next();
+  }
+
+  context.explain = [];
+  addBreadcrumb('database', 'EXPLAIN ANALYZE capture enabled', { path: req.path });
+
+  const originalJson = res.json.bind(res);
+  res.json = ((body: unknown) => {
+    const statements = context.explain || [];
+    // Stop capturing so the EXPLAIN runs themselves are never re-captured
+    context.explain = null;
+
+    // The request read rows yet nothing was captured: the log format no longer matches capture
+    const selects = [...context.queries.statements.keys()].filter((statement) => /^(SELECT|WITH)\b/i.test(statement));
+    if (statements.length === 0 && selects.length > 0) {
+      log.warn('SELECT statements ran but none were captured for EXPLAIN', {
+        path: req.path,
+        selects: selects.length,
+      });
+    }
+
+    explainStatements(statements)
+      .then((explain) => {
+        // Model instances (e.g. res.json(user)) need flattening before spreading
+        const plain = body && typeof (body as { toJSON?: unknown }).toJSON === 'function'
+          ? (body as { toJSON: () => unknown }).toJSON()
+          : body;
+        const payload = plain && typeof plain === 'object' && !Array.isArray(plain)
+          ? { ...plain, explain }
+          : { data: plain, explain };
+        originalJson(payload);
+      })
+      .catch((error) => {
+        log.error('Failed to capture plans', { err: error });
+        originalJson(body);
+      });
+    return res;
+  }) as typeof res.json;
+
+  next();
+}
@@ -0,0 +1,121 @@
+import { createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import { QueryTypes } from 'sequelize';
+import { sequelize } from './models/index.js';
+import type { ExportFormat, ExportResource } from '../shared/types.js';
+
+// Rows fetched per keyset batch; only one batch is held in memory at a time
+const EXPORT_BATCH_SIZE = parseInt(process.env.EXPORT_BATCH_SIZE || '1000');
+
+interface ExportDefinition {
+  table: string;
+  columns: string[];
+}
+
+/**
+ * Exportable tables with their flat column lists (no nested associations,
+ * so rows can be written as they are read)
+ */
+export const exportDefinitions: Record<ExportResource, ExportDefinition> = {
+  users: {
+    table: 'users',
+    columns: ['id', 'email', 'name', 'createdAt', 'updatedAt'],
+  },
+  orders: {
+    table: 'orders',
+    columns: ['id', 'userId', 'status', 'totalAmount', 'createdAt', 'updatedAt'],
+  },
+  'order-items': {
+    table: 'order_items',
+    columns: ['id', 'orderId', 'productId', 'quantity', 'price', 'createdAt', 'updatedAt'],
+  },
+};
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+};
+
+export function exportFileName(resource: ExportResource, format: ExportFormat, gzip: boolean): string {
+  return `${resource}.${format}${gzip ? '.gz' : ''}`;
+}
+
+export function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Read a table in primary key order, one batch at a time
+ * (WHERE id > last id seen, so every batch is an index range scan)
+ */
+async function* readBatches(definition: ExportDefinition): AsyncGenerator<Array<Record<string, unknown>>> {
+  const columns = definition.columns.map((column) => `"${column}"`).join(', ');
+  let lastId = 0;
+
+  while (true) {
+    const rows = await sequelize.query<Record<string, unknown>>(
+      `SELECT ${columns} FROM "${definition.table}" WHERE id > :lastId ORDER BY id LIMIT :limit`,
+      { type: QueryTypes.SELECT, replacements: { lastId, limit: EXPORT_BATCH_SIZE } }
+    );
+    if (rows.length === 0) {
+      return;
+    }
+    yield rows;
+    lastId = rows[rows.length - 1].id as number;
+  }
+}
+
+/**
+ * Serialized export as text chunks (one per batch). Consumed through a
+ * stream pipeline, the next batch is only read once the previous chunk has
+ * been flushed to the client, so memory stays flat regardless of table size.
+ */
+export async function* streamExport(
+  resource: ExportResource,
+  format: ExportFormat,
+  onBatch?: (rows: number) => void | Promise<void>
+): AsyncGenerator<string> {
+  const definition = exportDefinitions[resource];
+
+  if (format === 'csv') {
+    yield `${definition.columns.join(',')}\n`;
+  }
+
+  for await (const rows of readBatches(definition)) {
+    await onBatch?.(rows.length);
+    yield format === 'csv'
+      ? rows.map((row) => `${definition.columns.map((column) => toCsvField(row[column])).join(',')}\n`).join('')
+      : rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+  }
+}
+
+/**
+ * Write a full export to a file (used by background export jobs)
+ * @returns the number of rows written
+ */
+export async function writeExportFile(
+  filePath: string,
+  resource: ExportResource,
+  format: ExportFormat,
+  gzip: boolean,
+  onProgress?: (rowsSoFar: number) => void | Promise<void>
+): Promise<number> {
+  let rows = 0;
+  const source = Readable.from(streamExport(resource, format, async (count) => {
+    rows += count;
+    await onProgress?.(rows);
+  }));
+
+  if (gzip) {
+    await pipeline(source, zlib.createGzip(), createWriteStream(filePath));
+  } else {
+    await pipeline(source, createWriteStream(filePath));
+  }
+  return rows;
+}
@@ -0,0 +1,212 @@
+import { randomUUID } from 'crypto';
+import { STATUS_CODES } from 'http';
+import { setTimeout as sleep } from 'timers/promises';
+import type { Request, Response, NextFunction } from 'express';
+import { Sentry, addBreadcrumb, isSentryEnabled } from './sentry.js';
+import { withSpan } from './telemetry.js';
+import { runIntoStatementTimeout } from './dbChaos.js';
+import { createLogger } from './logger.js';
+import type { FaultRuleDTO, FaultType } from '../shared/types.js';
+
+// Fault injection for real /api routes. Rules live in this process's memory,
+// so every replica needs its own (and a restart clears them).
+
+const log = createLogger('faults');
+
+/**
+ * Thrown into the route by an `exception` rule; reaches Sentry's error
+ * handler like any other unhandled route error
+ */
+export class InjectedFaultError extends Error {
+  readonly ruleId: string;
+
+  constructor(message: string, ruleId: string) {
+    super(message);
+    this.name = 'InjectedFaultError';
+    this.ruleId = ruleId;
+  }
+}
+
+interface FaultRule {
+  id: string;
+  route: string;
+  pattern: RegExp;
+  method: string | null;
+  probability: number;
+  fault: FaultType;
+  options: Record<string, unknown>;
+  maxInjections: number | null;
+  matched: number;
+  injected: number;
+  createdAt: Date;
+}
+
+const rules = new Map<string, FaultRule>();
+
+/**
+ * Compile a route pattern relative to /api: `:param` matches one path
+ * segment, a trailing `*` one or more
+ */
+function compileRoute(route: string): RegExp {
+  const segments = route.replace(/\/+$/, '').split('/');
+  const pattern = segments
+    .map((segment, index) => {
+      if (segment === '*' && index === segments.length - 1) {
+        return '.+';
+      }
+      if (segment.startsWith(':')) {
+        return '[^/]+';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return new RegExp(`^${pattern}/?$`);
+}
+
+export function toFaultRuleDTO(rule: FaultRule): FaultRuleDTO {
+  return {
+    id: rule.id,
+    route: rule.route,
+    method: rule.method,
+    probability: rule.probability,
+    fault: rule.fault,
+    options: rule.options,
+    maxInjections: rule.maxInjections,
+    matched: rule.matched,
+    injected: rule.injected,
+    createdAt: rule.createdAt.toISOString(),
+  };
+}
+
+export function addFaultRule(request: {
+  route: string;
+  method: string | null;
+  probability: number;
+  fault: FaultType;
+  options: Record<string, unknown>;
+  maxInjections: number | null;
+}): FaultRule {
+  const rule: FaultRule = {
+    ...request,
+    id: randomUUID(),
+    pattern: compileRoute(request.route),
+    matched: 0,
+    injected: 0,
+    createdAt: new Date(),
+  };
+  rules.set(rule.id, rule);
+
+  log.info(`Added ${rule.fault} rule for ${rule.method ?? '*'} ${rule.route}`, {
+    ruleId: rule.id,
+    fault: rule.fault,
+    route: rule.route,
+    probability: rule.probability,
+  });
+  return rule;
+}
+
+export function getFaultRule(id: string) {
+  return rules.get(id);
+}
+
+export function listFaultRules() {
+  return [...rules.values()];
+}
+
+export function removeFaultRule(id: string): boolean {
+  return rules.delete(id);
+}
+
+export function clearFaultRules(): number {
+  const count = rules.size;
+  rules.clear();
+  return count;
+}
+
+/**
+ * Apply one rule's fault. Returns true when the request was answered (or its
+ * connection dropped) and must not reach the route.
+ */
+async function injectFault(rule: FaultRule, req: Request, res: Response, next: NextFunction): Promise<boolean> {
+  switch (rule.fault) {
+    case 'latency':
+      await withSpan('fault latency', 'fault.inject', () => sleep(rule.options.delayMs as number), {
+        'fault.rule': rule.id,
+        'fault.delay_ms': rule.options.delayMs as number,
+      });
+      return false;
+
+    case 'http-error': {
+      const status = rule.options.status as number;
+      // Answered like a failing upstream: a 5xx response without an exception
+      res.status(status).json({
+        error: STATUS_CODES[status] ?? 'Internal Server Error',
+        message: `Injected fault (rule ${rule.id})`,
+      });
+      return true;
+    }
+
+    case 'connection-reset':
+      // The client sees ECONNRESET / "socket hang up"; nothing is sent
+      req.socket.destroy();
+      return true;
+
+    case 'exception':
+      next(new InjectedFaultError(rule.options.message as string, rule.id));
+      return true;
+
+    case 'db-timeout':
+      try {
+        await withSpan('fault db-timeout', 'fault.inject', () => runIntoStatementTimeout(rule.options.timeoutMs as number), {
+          'fault.rule': rule.id,
+        });
+      } catch (error) {
+        next(error);
+        return true;
+      }
+      return false;
+  }
+}
+
+/**
+ * Mounted on /api ahead of the routes. Matching rules apply in the order they
+ * were added: latency rules add up, the first fault that ends the request
+ * wins. /debug/faults itself is never affected, so rules can always be removed.
+ */
+export async function faultInjectionMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (rules.size === 0 || req.path.startsWith('/debug/faults')) {
+    return next();
+  }
+
+  try {
+    for (const rule of rules.values()) {
+      if ((rule.method && rule.method !== req.method) || !rule.pattern.test(req.path)) {
+        continue;
+      }
+      rule.matched += 1;
+      if (
+        (rule.maxInjections !== null && rule.injected >= rule.maxInjections) ||
+        Math.random() >= rule.probability
+      ) {
+        continue;
+      }
+      rule.injected += 1;
+
+      const fields = { ruleId: rule.id, fault: rule.fault, method: req.method, path: `${req.baseUrl}${req.path}` };
+      log.warn(`Injecting ${rule.fault} into ${req.method} ${req.baseUrl}${req.path}`, fields);
+      addBreadcrumb('fault', `Injecting ${rule.fault}`, fields, 'warning');
+      if (isSentryEnabled()) {
+        Sentry.setTag('fault', rule.fault);
+        Sentry.setTag('fault.rule', rule.id);
+      }
+
+      if (await injectFault(rule, req, res, next)) {
+        return;
+      }
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  next();
+}
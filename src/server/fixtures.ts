@@ -0,0 +1,207 @@
+import { randomBytes } from 'crypto';
+import type { Transaction } from 'sequelize';
+import { Category, Fixture, Order, OrderItem, OrderStatusHistory, Product, User, sequelize } from './models/index.js';
+import { createLogger } from './logger.js';
+import type { FixtureDTO, FixtureIdsDTO, FixtureType } from '../shared/types.js';
+
+// Named data sets for integration tests, built with the regular models so
+// tests can target known rows instead of whatever the seeder left behind
+
+const log = createLogger('fixtures');
+
+// Rows per bulkCreate statement
+const CHUNK_SIZE = 1000;
+
+type FixtureParams = Record<string, number>;
+type FixtureBuilder = (name: string, params: FixtureParams, transaction: Transaction) => Promise<FixtureIdsDTO>;
+
+function emptyIds(): FixtureIdsDTO {
+  return { users: [], categories: [], products: [], orders: [] };
+}
+
+async function createUsers(name: string, count: number, transaction: Transaction): Promise<number[]> {
+  const users = await User.bulkCreate(
+    Array.from({ length: count }, (_value, index) => ({
+      email: `fixture-${name}-${index + 1}@example.com`,
+      name: `Fixture ${name} user ${index + 1}`,
+    })),
+    { transaction }
+  );
+  return users.map((user) => user.id);
+}
+
+async function createCategory(name: string, transaction: Transaction): Promise<number> {
+  const category = await Category.create(
+    { name: `Fixture ${name}`, description: `Test fixture ${name}` },
+    { transaction }
+  );
+  return category.id;
+}
+
+/**
+ * Pending orders with one history entry each, like orders placed through the
+ * API but without reserving stock. Every line has quantity 1.
+ */
+async function createOrders(
+  orders: Array<{ userId: number; products: Product[] }>,
+  transaction: Transaction
+): Promise<number[]> {
+  const ids: number[] = [];
+
+  for (let start = 0; start < orders.length; start += CHUNK_SIZE) {
+    const chunk = orders.slice(start, start + CHUNK_SIZE);
+    const created = await Order.bulkCreate(
+      chunk.map(({ userId, products }) => ({
+        userId,
+        status: 'pending' as const,
+        totalAmount: products.reduce((sum, product) => sum + Number(product.price), 0),
+      })),
+      { transaction }
+    );
+
+    await OrderItem.bulkCreate(
+      created.flatMap((order, index) =>
+        chunk[index].products.map((product) => ({
+          orderId: order.id,
+          productId: product.id,
+          quantity: 1,
+          price: Number(product.price),
+        }))
+      ),
+      { transaction }
+    );
+    await OrderStatusHistory.bulkCreate(
+      created.map((order) => ({ orderId: order.id, toStatus: order.status, actor: 'fixture' })),
+      { transaction }
+    );
+
+    ids.push(...created.map((order) => order.id));
+  }
+
+  return ids;
+}
+
+// Prices are 10.00 per position (10.00, 20.00, ...), so order totals are predictable
+async function createProducts(name: string, categoryId: number, count: number, transaction: Transaction) {
+  return Product.bulkCreate(
+    Array.from({ length: count }, (_value, index) => ({
+      name: `Fixture ${name} product ${index + 1}`,
+      price: (index + 1) * 10,
+      stock: 100,
+      categoryId,
+    })),
+    { transaction }
+  );
+}
+
+const fixtureBuilders: Record<FixtureType, FixtureBuilder> = {
+  // One user whose order history is large enough to show the N+1 cost
+  'user-with-orders': async (name, params, transaction) => {
+    const ids = emptyIds();
+    ids.users = await createUsers(name, 1, transaction);
+    ids.categories = [await createCategory(name, transaction)];
+
+    const products = await createProducts(name, ids.categories[0], params.products, transaction);
+    ids.products = products.map((product) => product.id);
+
+    // Each order takes the next itemsPerOrder products, wrapping around
+    ids.orders = await createOrders(
+      Array.from({ length: params.orders }, (_value, index) => ({
+        userId: ids.users[0],
+        products: Array.from(
+          { length: params.itemsPerOrder },
+          (_item, line) => products[(index * params.itemsPerOrder + line) % products.length]
+        ),
+      })),
+      transaction
+    );
+    return ids;
+  },
+
+  // One product on many order lines, e.g. for product report and sales queries
+  'product-with-order-items': async (name, params, transaction) => {
+    const ids = emptyIds();
+    ids.users = await createUsers(name, params.users, transaction);
+    ids.categories = [await createCategory(name, transaction)];
+
+    const products = await createProducts(name, ids.categories[0], 1, transaction);
+    ids.products = products.map((product) => product.id);
+
+    ids.orders = await createOrders(
+      Array.from({ length: params.orderItems }, (_value, index) => ({
+        userId: ids.users[index % ids.users.length],
+        products,
+      })),
+      transaction
+    );
+    return ids;
+  },
+
+  // A category without products (empty listings, deletes without cascades)
+  'empty-category': async (name, _params, transaction) => {
+    const ids = emptyIds();
+    ids.categories = [await createCategory(name, transaction)];
+    return ids;
+  },
+};
+
+export function toFixtureDTO(fixture: Fixture): FixtureDTO {
+  return {
+    id: fixture.id,
+    name: fixture.name,
+    type: fixture.type,
+    params: fixture.params,
+    ids: fixture.ids,
+    createdAt: fixture.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Build a fixture and record its ids in one transaction, so a failure leaves
+ * nothing behind. A taken name fails on the unique constraint.
+ */
+export async function createFixture(request: { type: FixtureType; name?: string; params: FixtureParams }) {
+  const name = request.name ?? `${request.type}-${randomBytes(4).toString('hex')}`;
+  const start = performance.now();
+
+  const fixture = await sequelize.transaction(async (transaction) => {
+    // Claim the name before building, so duplicates fail fast
+    const record = await Fixture.create(
+      { name, type: request.type, params: request.params, ids: emptyIds() },
+      { transaction }
+    );
+    const ids = await fixtureBuilders[request.type](name, request.params, transaction);
+    return record.update({ ids }, { transaction });
+  });
+
+  log.info(`Created fixture ${name}`, {
+    fixture: name,
+    type: request.type,
+    orders: fixture.ids.orders.length,
+    durationMs: Math.round(performance.now() - start),
+  });
+  return fixture;
+}
+
+/**
+ * Delete a fixture's rows. Removing its users and categories cascades to
+ * their orders, order items, history and products, including rows tests
+ * added against the fixture since.
+ */
+export async function teardownFixture(fixture: Fixture): Promise<void> {
+  await sequelize.transaction(async (transaction) => {
+    await User.destroy({ where: { id: fixture.ids.users }, transaction });
+    await Category.destroy({ where: { id: fixture.ids.categories }, transaction });
+    await fixture.destroy({ transaction });
+  });
+
+  log.info(`Tore down fixture ${fixture.name}`, { fixture: fixture.name, type: fixture.type });
+}
+
+export async function getFixture(name: string) {
+  return Fixture.findOne({ where: { name } });
+}
+
+export async function listFixtures() {
+  return Fixture.findAll({ order: [['id', 'ASC']] });
+}
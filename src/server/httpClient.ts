@@ -0,0 +1,101 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { withHttpClientSpan } from './telemetry.js';
+import { getRequestContext } from './requestContext.js';
+import { createLogger } from './logger.js';
+
+// Per-attempt timeout for downstream calls
+const DOWNSTREAM_TIMEOUT_MS = parseInt(process.env.DOWNSTREAM_TIMEOUT_MS || '2000');
+// Retries after the first attempt (timeouts, network errors, 429 and 5xx)
+const DOWNSTREAM_RETRIES = parseInt(process.env.DOWNSTREAM_RETRIES || '2');
+// First retry delay, doubled for every further attempt (with jitter)
+const DOWNSTREAM_RETRY_BASE_MS = parseInt(process.env.DOWNSTREAM_RETRY_BASE_MS || '100');
+
+const log = createLogger('http-client');
+
+/**
+ * A downstream call that failed for good (after its retries); routes answer 502
+ */
+export class DownstreamError extends Error {
+  readonly service: string;
+  // Last HTTP status, null for timeouts and network errors
+  readonly status: number | null;
+  readonly attempts: number;
+
+  constructor(service: string, message: string, status: number | null, attempts: number, cause: unknown) {
+    super(`${service}: ${message} (after ${attempts} attempt${attempts === 1 ? '' : 's'})`, { cause });
+    this.name = 'DownstreamError';
+    this.service = service;
+    this.status = status;
+    this.attempts = attempts;
+  }
+}
+
+export interface JsonRequest {
+  // Names the dependency in logs and errors
+  service: string;
+  method: 'GET' | 'POST';
+  url: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+function isRetryable(status: number | null) {
+  return status === null || status === 429 || status >= 500;
+}
+
+/**
+ * Call a JSON API with a timeout per attempt and exponential backoff between
+ * attempts. Each attempt is its own http.client span carrying the trace
+ * headers and the current X-Request-Id. Retried POSTs must be idempotent
+ * (e.g. send an Idempotency-Key).
+ */
+export async function requestJson<T>(request: JsonRequest): Promise<T> {
+  const { service, method, url } = request;
+  const timeoutMs = request.timeoutMs ?? DOWNSTREAM_TIMEOUT_MS;
+  const retries = request.retries ?? DOWNSTREAM_RETRIES;
+  const requestId = getRequestContext()?.requestId;
+
+  for (let attempt = 1; ; attempt++) {
+    let status: number | null = null;
+    let failure: unknown;
+    let message: string;
+
+    try {
+      const response = await withHttpClientSpan(method, url, (traceHeaders) =>
+        fetch(url, {
+          method,
+          headers: {
+            Accept: 'application/json',
+            ...(request.body !== undefined && { 'Content-Type': 'application/json' }),
+            ...(requestId && { 'X-Request-Id': requestId }),
+            ...request.headers,
+            ...traceHeaders,
+          },
+          body: request.body === undefined ? undefined : JSON.stringify(request.body),
+          signal: AbortSignal.timeout(timeoutMs),
+        })
+      );
+      status = response.status;
+      if (response.ok) {
+        return (await response.json()) as T;
+      }
+      message = `${method} ${url} responded ${status}`;
+      failure = new Error(`${message}: ${(await response.text()).slice(0, 200)}`);
+    } catch (error) {
+      failure = error;
+      message = error instanceof Error && error.name === 'TimeoutError'
+        ? `${method} ${url} timed out after ${timeoutMs}ms`
+        : `${method} ${url} failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (attempt > retries || !isRetryable(status)) {
+      throw new DownstreamError(service, message, status, attempt, failure);
+    }
+
+    const delayMs = Math.round(DOWNSTREAM_RETRY_BASE_MS * 2 ** (attempt - 1) * (0.5 + Math.random()));
+    log.warn(`${service} attempt ${attempt} failed, retrying in ${delayMs}ms`, { service, status, attempt, err: failure });
+    await sleep(delayMs);
+  }
+}
@@ -8,26 +8,78 @@ import { Sentry, addBreadcrumb, isSentryEnabled } from './sentry.js';
 
 import { initDatabase } from './db.js';
 import { createRoutes } from './routes/index.js';
+import { requestContextMiddleware, onResponseHeaders, getRequestContext } from './requestContext.js';
+import { applyQueryStatsHeaders } from './queryStats.js';
+import { explainMiddleware } from './explain.js';
+import { telemetryMiddleware, shutdownTelemetry } from './telemetry.js';
+import { metricsMiddleware, metricsHandler } from './metrics.js';
+import { createLogger } from './logger.js';
+import { startJobWorker, stopJobWorker } from './jobQueue.js';
+import { faultInjectionMiddleware } from './faultInjection.js';
+import { mountStubServices, startStubServer } from './stubServices.js';
+import { ENVELOPE_PATH, envelopeHandlers, isLocalIngestEnabled, startLocalIngestServer } from './sentryIngest.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const log = createLogger('server');
+const httpLog = createLogger('http');
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Basic middleware
-app.use(cors());
+// Preflights echo the requested headers (X-Explain, X-Request-Id, trace headers)
+app.use(cors({
+  exposedHeaders: ['X-Request-Id', 'X-Query-Count', 'X-Query-Time', 'X-N-Plus-One'],
+}));
+
+// Local Sentry ingest stand-in (before body parsing and request logging)
+if (isLocalIngestEnabled() && !process.env.SENTRY_LOCAL_INGEST_PORT) {
+  app.post(ENVELOPE_PATH, ...envelopeHandlers);
+}
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
+// Server spans for the OpenTelemetry backends
+app.use(telemetryMiddleware);
+
+// Prometheus request duration histograms
+app.use(metricsMiddleware);
+
+// Per-request context (query accounting, N+1 detection, EXPLAIN capture)
+app.use(requestContextMiddleware);
+onResponseHeaders(applyQueryStatsHeaders);
+app.use(explainMiddleware);
+
 // Request logging middleware with Sentry breadcrumbs
-app.use((req, _res, next) => {
+app.use((req, res, next) => {
+  const context = getRequestContext();
+  const start = performance.now();
+
   addBreadcrumb('http', `${req.method} ${req.path}`, {
     method: req.method,
     url: req.url,
     query: req.query,
   });
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
+  if (isSentryEnabled() && context) {
+    Sentry.setTag('request_id', context.requestId);
+  }
+
+  // 'finish' can fire outside the request's async context, so pass its IDs along
+  const fields = { requestId: context?.requestId };
+  res.on('finish', () => {
+    httpLog.info('request completed', {
+      ...fields,
+      method: req.method,
+      path: req.path,
+      route: req.route?.path ? `${req.baseUrl}${req.route.path}` : undefined,
+      status: res.statusCode,
+      durationMs: Math.round((performance.now() - start) * 100) / 100,
+      queryCount: context?.queries.count,
+    });
+  });
   next();
 });
 
@@ -36,6 +88,15 @@ app.get('/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Prometheus scrape endpoint
+app.get('/metrics', metricsHandler);
+
+// Stub payment, shipping and tax services called by checkout (unless STUB_SERVICES_PORT is set)
+mountStubServices(app);
+
+// Fault rules from /api/debug/faults, applied ahead of the real routes
+app.use('/api', faultInjectionMiddleware);
+
 // API routes
 app.use('/api', createRoutes());
 
@@ -61,8 +122,8 @@ app.use((_req, res) => {
 });
 
 // Error handler (Sentry will capture these automatically)
-app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
-  console.error('[Error]', err);
+app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  log.error('unhandled request error', { method: req.method, path: req.path, err });
   
   // Get the Sentry event ID for correlation
   const eventId = isSentryEnabled() ? Sentry.lastEventId() : undefined;
@@ -79,11 +140,19 @@ async function start() {
   try {
     // Initialize database
     await initDatabase();
+
+    // Background job worker (reports and exports queued via /api/jobs)
+    startJobWorker();
+
+    // Separate local Sentry ingest listener (when SENTRY_LOCAL_INGEST_PORT is set)
+    startLocalIngestServer();
+
+    // Separate stub services listener (when STUB_SERVICES_PORT is set)
+    startStubServer();
     
     // Start listening
     app.listen(PORT, () => {
-      console.log(`[Server] Running on http://localhost:${PORT}`);
-      console.log(`[Server] Environment: ${process.env.NODE_ENV || 'development'}`);
+      log.info(`Running on http://localhost:${PORT}`, { port: Number(PORT), environment: process.env.NODE_ENV || 'development' });
       
       // Log a Sentry message to verify it's working
       if (isSentryEnabled()) {
@@ -91,7 +160,7 @@ async function start() {
       }
     });
   } catch (error) {
-    console.error('[Server] Failed to start:', error);
+    log.error('Failed to start', { err: error });
     if (isSentryEnabled()) {
       Sentry.captureException(error);
     }
@@ -101,18 +170,22 @@ async function start() {
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
-  console.log('[Server] SIGTERM received, shutting down gracefully');
+  log.info('SIGTERM received, shutting down gracefully');
+  stopJobWorker();
   if (isSentryEnabled()) {
     await Sentry.close(2000);
   }
+  await shutdownTelemetry();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
-  console.log('[Server] SIGINT received, shutting down gracefully');
+  log.info('SIGINT received, shutting down gracefully');
+  stopJobWorker();
   if (isSentryEnabled()) {
     await Sentry.close(2000);
   }
+  await shutdownTelemetry();
   process.exit(0);
 });
 
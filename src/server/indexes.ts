@@ -0,0 +1,133 @@
+import { QueryTypes } from 'sequelize';
+import { sequelize } from './models/index.js';
+import type { TeachingIndexDTO } from '../shared/types.js';
+
+interface TeachingIndex {
+  name: string;
+  table: string;
+  column: string;
+  method: 'btree' | 'gin';
+  description: string;
+  // Extension the index needs (created on demand)
+  extension?: string;
+  definition: string;
+}
+
+/**
+ * Indexes the models deliberately leave out so the slow scenarios stay slow.
+ * Creating one at runtime shows the before/after timing in a single session.
+ */
+export const teachingIndexes: TeachingIndex[] = [
+  {
+    name: 'users_created_at_idx',
+    table: 'users',
+    column: 'createdAt',
+    method: 'btree',
+    description: 'Speeds up /users ordering and /users/search/by-date range scans',
+    definition: 'ON users USING btree ("createdAt")',
+  },
+  {
+    name: 'orders_created_at_idx',
+    table: 'orders',
+    column: 'createdAt',
+    method: 'btree',
+    description: 'Speeds up /orders/search date ranges and /orders/report/daily',
+    definition: 'ON orders USING btree ("createdAt")',
+  },
+  {
+    name: 'products_name_trgm_idx',
+    table: 'products',
+    column: 'name',
+    method: 'gin',
+    description: "Lets /products/search use an index for ILIKE '%query%'",
+    extension: 'pg_trgm',
+    definition: 'ON products USING gin (name gin_trgm_ops)',
+  },
+];
+
+// Build times are only known for indexes built by this process
+const lastBuildTimes = new Map<string, number>();
+
+export function findTeachingIndex(name: string): TeachingIndex | undefined {
+  return teachingIndexes.find((index) => index.name === name);
+}
+
+export async function listTeachingIndexes(): Promise<TeachingIndexDTO[]> {
+  const rows = await sequelize.query<{
+    name: string;
+    valid: boolean;
+    sizeBytes: string;
+    size: string;
+  }>(
+    `SELECT c.relname AS name,
+            i.indisvalid AS valid,
+            pg_relation_size(c.oid) AS "sizeBytes",
+            pg_size_pretty(pg_relation_size(c.oid)) AS size
+     FROM pg_class c
+     JOIN pg_index i ON i.indexrelid = c.oid
+     WHERE c.relname IN (:names)`,
+    {
+      type: QueryTypes.SELECT,
+      replacements: { names: teachingIndexes.map((index) => index.name) },
+    }
+  );
+  const existing = new Map(rows.map((row) => [row.name, row]));
+
+  return teachingIndexes.map((index) => {
+    const row = existing.get(index.name);
+    return {
+      name: index.name,
+      table: index.table,
+      column: index.column,
+      method: index.method,
+      description: index.description,
+      exists: !!row,
+      valid: row?.valid ?? false,
+      sizeBytes: row ? parseInt(row.sizeBytes) : null,
+      size: row?.size ?? null,
+      lastBuildMs: lastBuildTimes.get(index.name) ?? null,
+    };
+  });
+}
+
+/**
+ * Build the index without blocking writes. CONCURRENTLY cannot run inside a
+ * transaction, so these statements always go straight through the pool.
+ * Returns the build time in milliseconds, or null when a valid index already
+ * exists (nothing is built and the last build time is kept).
+ */
+export async function createTeachingIndex(index: TeachingIndex): Promise<number | null> {
+  const [current] = await sequelize.query<{ valid: boolean }>(
+    `SELECT i.indisvalid AS valid FROM pg_class c JOIN pg_index i ON i.indexrelid = c.oid WHERE c.relname = :name`,
+    { type: QueryTypes.SELECT, replacements: { name: index.name } }
+  );
+  if (current?.valid) {
+    return null;
+  }
+
+  if (index.extension) {
+    await sequelize.query(`CREATE EXTENSION IF NOT EXISTS ${index.extension}`);
+  }
+
+  // A failed concurrent build leaves an INVALID index behind that IF NOT EXISTS would keep
+  if (current) {
+    await sequelize.query(`DROP INDEX CONCURRENTLY IF EXISTS "${index.name}"`);
+  }
+
+  const start = performance.now();
+  await sequelize.query(`CREATE INDEX CONCURRENTLY IF NOT EXISTS "${index.name}" ${index.definition}`);
+  const buildMs = performance.now() - start;
+
+  lastBuildTimes.set(index.name, buildMs);
+  return buildMs;
+}
+
+/**
+ * Drop the index without blocking reads/writes. Returns the drop time in milliseconds.
+ */
+export async function dropTeachingIndex(index: TeachingIndex): Promise<number> {
+  const start = performance.now();
+  await sequelize.query(`DROP INDEX CONCURRENTLY IF EXISTS "${index.name}"`);
+  lastBuildTimes.delete(index.name);
+  return performance.now() - start;
+}
@@ -1,4 +1,6 @@
 import 'dotenv/config';
 import { initSentry } from './sentry.js';
+import { initTelemetry } from './telemetry.js';
 
 initSentry();
+initTelemetry();
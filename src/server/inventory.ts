@@ -0,0 +1,120 @@
+import { Op, type Transaction } from 'sequelize';
+import { OrderItem, Product } from './models/index.js';
+
+export interface OrderLine {
+  productId: number;
+  quantity: number;
+}
+
+/**
+ * Not enough units left to reserve a line; routes answer 409
+ */
+export class InsufficientStockError extends Error {
+  readonly productId: number;
+  readonly requested: number;
+  readonly available: number;
+
+  constructor(productId: number, requested: number, available: number) {
+    super(`Insufficient stock for product ${productId}: requested ${requested}, available ${available}`);
+    this.name = 'InsufficientStockError';
+    this.productId = productId;
+    this.requested = requested;
+    this.available = available;
+  }
+}
+
+/**
+ * An order line referencing a product that does not exist; routes answer 400
+ */
+export class UnknownProductError extends Error {
+  readonly productId: number;
+
+  constructor(productId: number) {
+    super(`Product ${productId} not found`);
+    this.name = 'UnknownProductError';
+    this.productId = productId;
+  }
+}
+
+// Quantities per product, so repeated lines for one product are checked together
+function totalsByProduct(lines: OrderLine[]): Map<number, number> {
+  const totals = new Map<number, number>();
+  for (const line of lines) {
+    totals.set(line.productId, (totals.get(line.productId) || 0) + line.quantity);
+  }
+  return totals;
+}
+
+/**
+ * Lock the ordered products (SELECT ... FOR UPDATE), check stock and decrement
+ * it inside the caller's transaction. Rows are locked in id order so two orders
+ * for overlapping products cannot deadlock. Returns the locked products by id
+ * (for pricing).
+ */
+export async function reserveStock(lines: OrderLine[], transaction: Transaction): Promise<Map<number, Product>> {
+  const totals = totalsByProduct(lines);
+  const products = await Product.findAll({
+    where: { id: { [Op.in]: Array.from(totals.keys()) } },
+    order: [['id', 'ASC']],
+    lock: transaction.LOCK.UPDATE,
+    transaction,
+  });
+  const byId = new Map(products.map((product) => [product.id, product]));
+
+  for (const [productId, quantity] of totals) {
+    const product = byId.get(productId);
+    if (!product) {
+      throw new UnknownProductError(productId);
+    }
+    if (product.stock < quantity) {
+      throw new InsufficientStockError(productId, quantity, product.stock);
+    }
+  }
+
+  for (const [productId, quantity] of totals) {
+    await byId.get(productId)!.decrement('stock', { by: quantity, transaction });
+  }
+  return byId;
+}
+
+/**
+ * Put an order's units back on the shelf (on cancellation)
+ */
+export async function restoreStock(orderId: number, transaction: Transaction) {
+  const items = await OrderItem.findAll({ where: { orderId }, transaction });
+  const totals = totalsByProduct(items);
+
+  for (const productId of Array.from(totals.keys()).sort((a, b) => a - b)) {
+    await Product.increment('stock', { by: totals.get(productId)!, where: { id: productId }, transaction });
+  }
+}
+
+/**
+ * INTENTIONALLY RACY: read stock without a lock, wait, then write back the
+ * value computed from the stale read. Concurrent orders for the same product
+ * overwrite each other's decrements (lost update) and can oversell.
+ */
+export async function reserveStockRacy(lines: OrderLine[], delayMs: number): Promise<Map<number, Product>> {
+  const totals = totalsByProduct(lines);
+  const products = await Product.findAll({ where: { id: { [Op.in]: Array.from(totals.keys()) } } });
+  const byId = new Map(products.map((product) => [product.id, product]));
+
+  for (const [productId, quantity] of totals) {
+    const product = byId.get(productId);
+    if (!product) {
+      throw new UnknownProductError(productId);
+    }
+    if (product.stock < quantity) {
+      throw new InsufficientStockError(productId, quantity, product.stock);
+    }
+  }
+
+  // Widen the window between the read and the write
+  await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+  for (const [productId, quantity] of totals) {
+    const product = byId.get(productId)!;
+    await product.update({ stock: product.stock - quantity });
+  }
+  return byId;
+}
@@ -0,0 +1,324 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { QueryTypes } from 'sequelize';
+import { Job, sequelize } from './models/index.js';
+import { Sentry, isSentryEnabled } from './sentry.js';
+import { getPropagationHeaders, withContinuedSpan } from './telemetry.js';
+import { getRequestContext, runInContext } from './requestContext.js';
+import { createLogger } from './logger.js';
+import { generateDailyReport, generateProductReport } from './reports.js';
+import { exportDefinitions, exportFileName, writeExportFile } from './exporter.js';
+import { estimateRowCount } from './keyset.js';
+import type { ExportFormat, ExportResource, JobDTO, JobType } from '../shared/types.js';
+
+// Set to false on processes that should only enqueue (e.g. when workers run elsewhere)
+const JOB_WORKER_ENABLED = ['true', '1', 'yes'].includes((process.env.JOB_WORKER_ENABLED || 'true').toLowerCase());
+// Worker loops per process; each claims one job at a time
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '1');
+// Idle wait before looking for new jobs
+const JOB_POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000');
+// A running job whose lock is older than this belongs to a dead worker and is claimed again
+const JOB_LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '300000');
+// Running jobs refresh their lock this often, well inside the timeout
+const JOB_HEARTBEAT_MS = Math.max(1000, Math.floor(JOB_LOCK_TIMEOUT_MS / 3));
+// First retry delay, doubled for every further attempt
+const JOB_RETRY_BASE_MS = parseInt(process.env.JOB_RETRY_BASE_MS || '5000');
+// Where export jobs write their files
+const JOB_EXPORT_DIR = process.env.JOB_EXPORT_DIR || path.join(os.tmpdir(), 'nodejs-tester-exports');
+// Export files older than this are deleted (checked hourly by the worker)
+const JOB_EXPORT_RETENTION_MS = parseInt(process.env.JOB_EXPORT_RETENTION_MS || '86400000');
+const EXPORT_CLEANUP_INTERVAL_MS = Math.min(JOB_EXPORT_RETENTION_MS, 3600000);
+
+const log = createLogger('jobs');
+
+type ProgressReporter = (percent: number) => Promise<void>;
+type JobHandler = (job: Job, reportProgress: ProgressReporter) => Promise<unknown>;
+
+export interface ExportJobResult {
+  fileName: string;
+  rows: number;
+  bytes: number;
+  downloadUrl: string;
+}
+
+// One file per attempt, so a worker that lost its claim never touches the file of the one that took over
+export function exportJobFilePath(jobId: number, attempt: number, fileName: string): string {
+  return path.join(JOB_EXPORT_DIR, `job-${jobId}-${attempt}-${fileName}`);
+}
+
+const jobHandlers: Record<JobType, JobHandler> = {
+  'orders-daily-report': async (job) => {
+    const { days } = job.payload as { days: number };
+    return { data: await generateDailyReport(days) };
+  },
+
+  'products-report': async () => {
+    const data = await generateProductReport();
+    return { data, total: data.length };
+  },
+
+  export: async (job, reportProgress) => {
+    const { resource, format, gzip } = job.payload as { resource: ExportResource; format: ExportFormat; gzip: boolean };
+    const fileName = exportFileName(resource, format, gzip);
+    const result: ExportJobResult = { fileName, rows: 0, bytes: 0, downloadUrl: `/api/jobs/${job.id}/download` };
+    const filePath = exportJobFilePath(job.id, job.attempts, fileName);
+
+    // Progress against the planner's row estimate (the table may grow meanwhile)
+    const estimate = await estimateRowCount(exportDefinitions[resource].table);
+
+    await fs.promises.mkdir(JOB_EXPORT_DIR, { recursive: true });
+    result.rows = await writeExportFile(filePath, resource, format, gzip, async (rows) => {
+      if (estimate) {
+        await reportProgress(Math.min(99, Math.floor((rows / estimate) * 100)));
+      }
+    });
+
+    result.bytes = (await fs.promises.stat(filePath)).size;
+    return result;
+  },
+};
+
+export function toJobDTO(job: Job): JobDTO {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    payload: job.payload,
+    progress: job.progress,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    result: job.result ?? null,
+    error: job.error,
+    runAt: job.runAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+    requestId: job.requestId,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Queue a job, remembering the submitting request and its trace so the
+ * worker's span joins the same trace
+ */
+export async function enqueueJob(request: { type: JobType; payload: Record<string, unknown>; maxAttempts: number }) {
+  const job = await Job.create({
+    type: request.type,
+    payload: request.payload,
+    maxAttempts: request.maxAttempts,
+    requestId: getRequestContext()?.requestId ?? null,
+    traceHeaders: getPropagationHeaders(),
+  });
+
+  log.info(`Queued ${job.type} job ${job.id}`, { jobId: job.id, type: job.type });
+  return job;
+}
+
+/**
+ * Claim the oldest due job. SKIP LOCKED lets concurrent workers (in this or
+ * other processes) each take a different row without waiting on each other.
+ */
+async function claimNextJob(): Promise<Job | null> {
+  const [job] = await sequelize.query<Job>(
+    `UPDATE jobs
+     SET status = 'running', attempts = attempts + 1, "lockedAt" = NOW(),
+         "startedAt" = COALESCE("startedAt", NOW()), "updatedAt" = NOW()
+     WHERE id = (
+       SELECT id FROM jobs
+       WHERE (status = 'queued' AND "runAt" <= NOW())
+          OR (status = 'running' AND "lockedAt" < NOW() - make_interval(secs => :lockTimeoutSeconds))
+       ORDER BY "runAt", id
+       FOR UPDATE SKIP LOCKED
+       LIMIT 1
+     )
+     RETURNING *`,
+    {
+      type: QueryTypes.SELECT,
+      model: Job,
+      mapToModel: true,
+      replacements: { lockTimeoutSeconds: JOB_LOCK_TIMEOUT_MS / 1000 },
+    }
+  );
+  return job ?? null;
+}
+
+/**
+ * Update a claimed job. Matching on attempts means a worker whose lock timed
+ * out (and whose job was claimed again) can no longer overwrite it.
+ */
+async function updateClaimedJob(job: Job, values: Partial<Pick<Job, 'status' | 'result' | 'error' | 'progress' | 'runAt' | 'lockedAt' | 'finishedAt'>>) {
+  const [updated] = await Job.update(values, {
+    where: { id: job.id, status: 'running', attempts: job.attempts },
+  });
+  return updated > 0;
+}
+
+async function runJob(job: Job) {
+  const start = performance.now();
+  const fields = { jobId: job.id, type: job.type, attempt: job.attempts };
+
+  if (job.attempts > job.maxAttempts) {
+    // Only reachable when the worker running the last attempt died
+    await updateClaimedJob(job, { status: 'failed', lockedAt: null, finishedAt: new Date(), error: job.error ?? 'Worker lost' });
+    log.error(`Job ${job.id} abandoned after ${job.maxAttempts} attempts`, fields);
+    return;
+  }
+
+  const reportProgress: ProgressReporter = async (percent) => {
+    if (percent !== job.progress) {
+      job.progress = percent;
+      await updateClaimedJob(job, { progress: percent });
+    }
+  };
+
+  // Refresh lockedAt while the handler runs, however long it goes without progress
+  // (e.g. products-report), so the job is not claimed again as a dead worker's
+  const heartbeat = setInterval(() => {
+    updateClaimedJob(job, { lockedAt: new Date() })
+      .then((held) => {
+        if (!held) {
+          log.warn(`Job ${job.id} was claimed by another worker`, fields);
+        }
+      })
+      .catch((error) => log.warn(`Heartbeat for job ${job.id} failed`, { ...fields, err: error }));
+  }, JOB_HEARTBEAT_MS);
+
+  try {
+    const result = await withContinuedSpan(
+      job.traceHeaders,
+      `job ${job.type}`,
+      'queue.process',
+      () => jobHandlers[job.type](job, reportProgress),
+      { 'messaging.message.id': String(job.id), 'job.type': job.type, 'job.attempt': job.attempts }
+    ).finally(() => clearInterval(heartbeat));
+
+    const held = await updateClaimedJob(job, { status: 'succeeded', result, error: null, progress: 100, lockedAt: null, finishedAt: new Date() });
+    if (!held) {
+      // Another worker claimed the job after this one's lock timed out; its result is the one that counts
+      log.warn(`Job ${job.id} finished after losing its claim, discarding the result`, {
+        ...fields,
+        durationMs: Math.round(performance.now() - start),
+      });
+      if (job.type === 'export') {
+        await fs.promises.unlink(exportJobFilePath(job.id, job.attempts, (result as ExportJobResult).fileName)).catch(() => {});
+      }
+      return;
+    }
+    log.info(`Job ${job.id} succeeded`, { ...fields, durationMs: Math.round(performance.now() - start) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts < job.maxAttempts) {
+      const delayMs = JOB_RETRY_BASE_MS * 2 ** (job.attempts - 1);
+      await updateClaimedJob(job, { status: 'queued', error: message, lockedAt: null, runAt: new Date(Date.now() + delayMs) });
+      log.warn(`Job ${job.id} failed, retrying in ${delayMs}ms`, { ...fields, err: error });
+      return;
+    }
+
+    await updateClaimedJob(job, { status: 'failed', error: message, lockedAt: null, finishedAt: new Date() });
+    log.error(`Job ${job.id} failed after ${job.attempts} attempts`, { ...fields, err: error });
+    if (isSentryEnabled()) {
+      Sentry.captureException(error, { tags: { 'job.type': job.type }, extra: { jobId: job.id, attempts: job.attempts } });
+    }
+  }
+}
+
+/**
+ * Delete export files older than JOB_EXPORT_RETENTION_MS; their download
+ * link answers 404 afterwards
+ */
+export async function cleanupExportFiles(): Promise<number> {
+  const fileNames = await fs.promises.readdir(JOB_EXPORT_DIR).catch(() => [] as string[]);
+  const cutoff = Date.now() - JOB_EXPORT_RETENTION_MS;
+  let deleted = 0;
+
+  for (const fileName of fileNames) {
+    const filePath = path.join(JOB_EXPORT_DIR, fileName);
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (stat.isFile() && stat.mtimeMs < cutoff) {
+        await fs.promises.unlink(filePath);
+        deleted += 1;
+      }
+    } catch (error) {
+      log.warn(`Could not clean up ${fileName}`, { err: error });
+    }
+  }
+
+  if (deleted > 0) {
+    log.info(`Deleted ${deleted} expired export file(s)`, { deleted, dir: JOB_EXPORT_DIR });
+  }
+  return deleted;
+}
+
+let stopped = true;
+const timers = new Set<NodeJS.Timeout>();
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+// Drain due jobs, then sleep until the next poll
+async function workerLoop() {
+  try {
+    while (!stopped) {
+      const job = await claimNextJob();
+      if (!job) {
+        break;
+      }
+      // Queries and log lines are attributed to the request that submitted the job
+      await runInContext(job.requestId ?? `job-${job.id}`, 'JOB', job.type, () => runJob(job));
+    }
+  } catch (error) {
+    log.error('Worker poll failed', { err: error });
+  }
+
+  if (!stopped) {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      workerLoop();
+    }, JOB_POLL_INTERVAL_MS);
+    timers.add(timer);
+  }
+}
+
+export function startJobWorker() {
+  if (!JOB_WORKER_ENABLED || !stopped) {
+    return;
+  }
+  stopped = false;
+  for (let i = 0; i < JOB_CONCURRENCY; i++) {
+    workerLoop();
+  }
+  // Export files are on this process's disk, so the worker that wrote them expires them
+  cleanupExportFiles();
+  cleanupTimer = setInterval(cleanupExportFiles, EXPORT_CLEANUP_INTERVAL_MS);
+  log.info(`Worker started with ${JOB_CONCURRENCY} loop(s)`, { concurrency: JOB_CONCURRENCY });
+}
+
+// Stop polling; a job still running is claimed again once its lock times out
+export function stopJobWorker() {
+  stopped = true;
+  for (const timer of timers) {
+    clearTimeout(timer);
+  }
+  timers.clear();
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer);
+    cleanupTimer = null;
+  }
+}
+
+export async function getJob(id: number) {
+  return Job.findByPk(id);
+}
+
+export async function listJobs(filter: { type?: JobType; status?: JobDTO['status']; limit: number }) {
+  return Job.findAll({
+    where: {
+      ...(filter.type && { type: filter.type }),
+      ...(filter.status && { status: filter.status }),
+    },
+    order: [['id', 'DESC']],
+    limit: filter.limit,
+  });
+}
@@ -0,0 +1,142 @@
+import { QueryTypes, literal, type Includeable, type Model, type ModelStatic } from 'sequelize';
+import { sequelize } from './models/index.js';
+import type { KeysetPageDTO } from '../shared/types.js';
+
+interface Cursor {
+  // Which way to read from the key: the following page or the one before it
+  direction: 'next' | 'prev';
+  value: string | number;
+  id: number;
+}
+
+/**
+ * A cursor that is not a token issued by this API; routes answer 400
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('cursor is not a valid page token');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Cursors are opaque to clients: base64url-encoded JSON of the last/first row's key
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.direction, cursor.value, cursor.id])).toString('base64url');
+}
+
+/**
+ * Whether a cursor key fits the sort column's type. A forged value that does
+ * not would otherwise reach Postgres and fail the comparison with a 500.
+ */
+function isValidKey(value: unknown, type: string): value is string | number {
+  switch (type) {
+    case 'DATE':
+      // Exactly what sortKey writes
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value)) && new Date(value).toISOString() === value;
+    case 'INTEGER':
+      return Number.isInteger(value);
+    case 'STRING':
+    case 'TEXT':
+      // Postgres text cannot hold NUL
+      return typeof value === 'string' && !value.includes('\u0000');
+    default:
+      return typeof value === 'string' || typeof value === 'number';
+  }
+}
+
+function decodeCursor(token: string, keyType: string): Cursor {
+  try {
+    const [direction, value, id] = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if ((direction === 'next' || direction === 'prev') && isValidKey(value, keyType) && Number.isInteger(id)) {
+      return { direction, value, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+interface KeysetOptions {
+  // Attribute the page is sorted by; the primary key breaks ties
+  sortColumn: string;
+  sortDirection: 'ASC' | 'DESC';
+  pageSize: number;
+  cursor?: string;
+  include?: Includeable[];
+  // Add pg_class.reltuples as estimatedTotal instead of running COUNT(*)
+  estimate?: boolean;
+}
+
+function sortKey(row: Model, sortColumn: string): string | number {
+  const value = row.get(sortColumn);
+  return value instanceof Date ? value.toISOString() : (value as string | number);
+}
+
+/**
+ * Planner's row estimate for a table (as of the last ANALYZE/autovacuum).
+ * Null when the table has never been analyzed.
+ */
+export async function estimateRowCount(table: string): Promise<number | null> {
+  const [row] = await sequelize.query<{ estimate: number }>(
+    'SELECT reltuples AS estimate FROM pg_class WHERE oid = to_regclass(:table)',
+    { type: QueryTypes.SELECT, replacements: { table } }
+  );
+  return row && row.estimate >= 0 ? Math.round(row.estimate) : null;
+}
+
+/**
+ * Keyset ("seek") pagination: filter on (sortColumn, id) past the cursor row
+ * instead of skipping rows with OFFSET, so every page costs the same no matter
+ * how deep it is. Reads one extra row to know whether another page exists.
+ */
+export async function findPageByKeyset<M extends Model>(
+  model: ModelStatic<M>,
+  options: KeysetOptions
+): Promise<KeysetPageDTO<M>> {
+  const { sortColumn, sortDirection, pageSize, include, estimate } = options;
+  const { type } = model.getAttributes()[sortColumn];
+  const keyType = typeof type === 'string' ? type : type.key;
+  const cursor = options.cursor ? decodeCursor(options.cursor, keyType) : null;
+
+  // Reading backwards (prev) flips both the comparison and the sort order
+  const backwards = cursor?.direction === 'prev';
+  const ascending = (sortDirection === 'ASC') !== backwards;
+  const order = ascending ? 'ASC' : 'DESC';
+
+  // Row comparison so a (sortColumn) or (sortColumn, id) index can serve it
+  const key = `("${model.name}"."${sortColumn}", "${model.name}"."id")`;
+  const where = cursor
+    ? literal(`${key} ${ascending ? '>' : '<'} (${sequelize.escape(cursor.value)}, ${sequelize.escape(cursor.id)})`)
+    : undefined;
+
+  const rows = await model.findAll({
+    where,
+    include,
+    order: [[sortColumn, order], ['id', order]],
+    limit: pageSize + 1,
+  });
+
+  const hasMore = rows.length > pageSize;
+  const page = rows.slice(0, pageSize);
+  if (backwards) {
+    page.reverse();
+  }
+
+  const first = page[0];
+  const last = page[page.length - 1];
+  // Forwards: more rows after this page; backwards: more rows before it
+  const hasNext = backwards ? true : hasMore;
+  const hasPrev = backwards ? hasMore : cursor !== null;
+
+  return {
+    data: page,
+    pageSize,
+    nextCursor: hasNext && last
+      ? encodeCursor({ direction: 'next', value: sortKey(last, sortColumn), id: last.get('id') as number })
+      : null,
+    prevCursor: hasPrev && first
+      ? encodeCursor({ direction: 'prev', value: sortKey(first, sortColumn), id: first.get('id') as number })
+      : null,
+    estimatedTotal: estimate ? await estimateRowCount(model.getTableName() as string) : null,
+  };
+}
@@ -0,0 +1,289 @@
+import { randomUUID } from 'crypto';
+import { LoadRun } from './models/index.js';
+import { createLogger } from './logger.js';
+import type { LatencySummaryDTO, LoadRunConfigDTO, LoadRunDTO } from '../shared/types.js';
+
+// Load runs always target this server; only the path is configurable
+const LOAD_TARGET_BASE_URL = process.env.LOAD_TARGET_BASE_URL || `http://127.0.0.1:${process.env.PORT || 3001}/api`;
+// Finished runs listed by GET /api/load-runs (all of them stay in load_runs)
+const LOAD_RUN_HISTORY = parseInt(process.env.LOAD_RUN_HISTORY || '50');
+
+const log = createLogger('load-run');
+
+const HISTOGRAM_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A run this process is driving (or finished but not yet stored)
+interface ActiveLoadRun {
+  id: string;
+  status: LoadRunDTO['status'];
+  config: LoadRunConfigDTO;
+  startedAt: Date;
+  finishedAt: Date | null;
+  latencies: number[];
+  errors: number;
+  dropped: number;
+  statusCodes: Record<string, number>;
+  abort: AbortController;
+}
+
+const activeRuns = new Map<string, ActiveLoadRun>();
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)];
+}
+
+function summarizeLatencies(latencies: number[]): LatencySummaryDTO | null {
+  if (latencies.length === 0) {
+    return null;
+  }
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+  };
+}
+
+function buildHistogram(latencies: number[]): LoadRunDTO['histogram'] {
+  const counts = new Array(HISTOGRAM_BUCKETS.length + 1).fill(0);
+  for (const latency of latencies) {
+    const bucket = HISTOGRAM_BUCKETS.findIndex((bound) => latency <= bound);
+    counts[bucket === -1 ? HISTOGRAM_BUCKETS.length : bucket] += 1;
+  }
+  return counts.map((count, index) => ({
+    le: index < HISTOGRAM_BUCKETS.length ? String(HISTOGRAM_BUCKETS[index]) : '+Inf',
+    count,
+  }));
+}
+
+function toLoadRunDTO(run: ActiveLoadRun): LoadRunDTO {
+  const elapsedSeconds = ((run.finishedAt ?? new Date()).getTime() - run.startedAt.getTime()) / 1000;
+  const requests = run.latencies.length;
+
+  return {
+    id: run.id,
+    status: run.status,
+    config: run.config,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() ?? null,
+    requests,
+    errors: run.errors,
+    dropped: run.dropped,
+    statusCodes: run.statusCodes,
+    throughput: elapsedSeconds > 0 ? requests / elapsedSeconds : 0,
+    latency: summarizeLatencies(run.latencies),
+    histogram: buildHistogram(run.latencies),
+  };
+}
+
+function toStoredLoadRunDTO(run: LoadRun): LoadRunDTO {
+  return {
+    id: run.id,
+    status: run.status,
+    config: run.config,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt.toISOString(),
+    requests: run.requests,
+    errors: run.errors,
+    dropped: run.dropped,
+    statusCodes: run.statusCodes,
+    throughput: run.throughput,
+    latency: run.latency,
+    histogram: run.histogram,
+  };
+}
+
+/**
+ * Store a finished run's results (the raw latencies are summarized, not kept)
+ */
+async function persistLoadRun(run: ActiveLoadRun) {
+  const result = toLoadRunDTO(run);
+  await LoadRun.create({
+    id: run.id,
+    scenarioId: run.config.scenarioId,
+    status: result.status,
+    config: run.config,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt!,
+    requests: result.requests,
+    errors: result.errors,
+    dropped: result.dropped,
+    statusCodes: result.statusCodes,
+    throughput: result.throughput,
+    latency: result.latency,
+    histogram: result.histogram,
+  });
+}
+
+async function sendRequest(run: ActiveLoadRun) {
+  const start = performance.now();
+  try {
+    const response = await fetch(`${LOAD_TARGET_BASE_URL}${run.config.path}`, {
+      method: run.config.method,
+      headers: {
+        'X-Load-Run-Id': run.id,
+        ...(run.config.body !== null && { 'Content-Type': 'application/json' }),
+      },
+      body: run.config.body !== null ? JSON.stringify(run.config.body) : undefined,
+      signal: AbortSignal.any([run.abort.signal, AbortSignal.timeout(run.config.timeoutMs)]),
+    });
+    // Drain the body so the latency includes the full response
+    await response.arrayBuffer();
+
+    const code = String(response.status);
+    run.statusCodes[code] = (run.statusCodes[code] || 0) + 1;
+    if (response.status >= 500) {
+      run.errors += 1;
+    }
+  } catch (error) {
+    // Requests cut off by a cancel are not part of the result
+    if (run.abort.signal.aborted) {
+      return;
+    }
+    const code = error instanceof Error && error.name === 'TimeoutError' ? 'timeout' : 'network';
+    run.statusCodes[code] = (run.statusCodes[code] || 0) + 1;
+    run.errors += 1;
+  }
+  run.latencies.push(performance.now() - start);
+}
+
+/**
+ * Closed model: `concurrency` workers each fire the next request as soon as
+ * the previous one finishes, until the deadline
+ */
+async function runClosedLoop(run: ActiveLoadRun, deadline: number) {
+  const worker = async () => {
+    while (Date.now() < deadline && !run.abort.signal.aborted) {
+      await sendRequest(run);
+    }
+  };
+  await Promise.all(Array.from({ length: run.config.concurrency }, worker));
+}
+
+/**
+ * Open model: requests arrive at a fixed rate regardless of how fast the
+ * server answers; arrivals beyond `concurrency` in-flight requests are dropped
+ */
+async function runOpenLoop(run: ActiveLoadRun, deadline: number, ratePerSecond: number) {
+  const inFlight = new Set<Promise<void>>();
+  const intervalMs = 1000 / ratePerSecond;
+  let nextArrival = Date.now();
+
+  while (nextArrival < deadline && !run.abort.signal.aborted) {
+    if (inFlight.size >= run.config.concurrency) {
+      run.dropped += 1;
+    } else {
+      const request = sendRequest(run).finally(() => inFlight.delete(request));
+      inFlight.add(request);
+    }
+    nextArrival += intervalMs;
+    await new Promise((resolve) => setTimeout(resolve, Math.max(0, nextArrival - Date.now())));
+  }
+  await Promise.all(inFlight);
+}
+
+/**
+ * Start a load run in the background and return it immediately. Once
+ * finished it is stored in load_runs and served from there.
+ */
+export function startLoadRun(config: LoadRunConfigDTO): LoadRunDTO {
+  const run: ActiveLoadRun = {
+    id: randomUUID(),
+    status: 'running',
+    config,
+    startedAt: new Date(),
+    finishedAt: null,
+    latencies: [],
+    errors: 0,
+    dropped: 0,
+    statusCodes: {},
+    abort: new AbortController(),
+  };
+  activeRuns.set(run.id, run);
+
+  const deadline = Date.now() + config.durationSeconds * 1000;
+  const loop = config.ratePerSecond
+    ? runOpenLoop(run, deadline, config.ratePerSecond)
+    : runClosedLoop(run, deadline);
+
+  loop
+    .catch((error) => log.error(`${run.id} failed`, { loadRunId: run.id, err: error }))
+    .finally(() => {
+      run.finishedAt = new Date();
+      if (run.status === 'running') {
+        run.status = 'completed';
+      }
+      log.info(`${run.id} ${run.status}: ${run.latencies.length} requests to ${config.method} ${config.path}`, {
+        loadRunId: run.id,
+        status: run.status,
+        requests: run.latencies.length,
+      });
+
+      // Until stored, the run is still served from memory
+      persistLoadRun(run)
+        .then(() => activeRuns.delete(run.id))
+        .catch((error) => log.error(`${run.id} could not be stored`, { loadRunId: run.id, err: error }));
+    });
+
+  return toLoadRunDTO(run);
+}
+
+export async function getLoadRun(id: string): Promise<LoadRunDTO | null> {
+  const active = activeRuns.get(id);
+  if (active) {
+    return toLoadRunDTO(active);
+  }
+  // Anything else would fail the uuid cast in Postgres
+  if (!UUID_PATTERN.test(id)) {
+    return null;
+  }
+  const stored = await LoadRun.findByPk(id);
+  return stored ? toStoredLoadRunDTO(stored) : null;
+}
+
+/**
+ * This process's running runs, then the latest LOAD_RUN_HISTORY finished ones
+ * from any process (newest first)
+ */
+export async function listLoadRuns(filter: { scenarioId?: string }): Promise<LoadRunDTO[]> {
+  const active = Array.from(activeRuns.values())
+    .reverse()
+    .filter((run) => !filter.scenarioId || run.config.scenarioId === filter.scenarioId);
+
+  const stored = await LoadRun.findAll({
+    where: filter.scenarioId ? { scenarioId: filter.scenarioId } : {},
+    order: [['startedAt', 'DESC']],
+    limit: LOAD_RUN_HISTORY,
+  });
+
+  return [
+    ...active.map(toLoadRunDTO),
+    // A run that was just stored can still be in activeRuns
+    ...stored.filter((run) => !activeRuns.has(run.id)).map(toStoredLoadRunDTO),
+  ];
+}
+
+/**
+ * Stop a run this process is driving; finished runs are returned unchanged.
+ * Returns null when the run does not exist (or runs on another replica).
+ */
+export async function cancelLoadRun(id: string): Promise<LoadRunDTO | null> {
+  const active = activeRuns.get(id);
+  if (!active) {
+    return getLoadRun(id);
+  }
+  if (active.status === 'running') {
+    active.status = 'cancelled';
+    active.abort.abort();
+  }
+  return toLoadRunDTO(active);
+}
@@ -0,0 +1,70 @@
+import { getRequestContext } from './requestContext.js';
+import { getTraceContext } from './telemetry.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function parseLogLevel(value: string | undefined): LogLevel {
+  const level = (value || '').toLowerCase();
+  if (level in LEVELS) {
+    return level as LogLevel;
+  }
+  // SQL lines are logged at debug, which development used to print unconditionally
+  return process.env.NODE_ENV === 'production' ? 'info' : 'debug';
+}
+
+const LOG_LEVEL = parseLogLevel(process.env.LOG_LEVEL);
+
+export type Logger = Record<LogLevel, (msg: string, fields?: Record<string, unknown>) => void>;
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Write one JSON line. Lines written while a request is being handled carry
+ * its requestId, plus the active traceId/spanId when Sentry or OpenTelemetry
+ * is tracing. Explicit fields win over the ambient ones.
+ */
+function write(level: LogLevel, component: string, msg: string, fields?: Record<string, unknown>) {
+  if (LEVELS[level] < LEVELS[LOG_LEVEL]) {
+    return;
+  }
+
+  const trace = getTraceContext();
+  const entry: Record<string, unknown> = {
+    time: new Date().toISOString(),
+    level,
+    component,
+    msg,
+    requestId: getRequestContext()?.requestId,
+    traceId: trace?.traceId,
+    spanId: trace?.spanId,
+  };
+  for (const [key, value] of Object.entries(fields || {})) {
+    entry[key] = serialize(value);
+  }
+
+  const line = JSON.stringify(entry);
+  if (LEVELS[level] >= LEVELS.warn) {
+    process.stderr.write(`${line}\n`);
+  } else {
+    process.stdout.write(`${line}\n`);
+  }
+}
+
+/**
+ * Logger whose lines are tagged with a component, e.g. createLogger('database')
+ */
+export function createLogger(component: string): Logger {
+  return {
+    debug: (msg, fields) => write('debug', component, msg, fields),
+    info: (msg, fields) => write('info', component, msg, fields),
+    warn: (msg, fields) => write('warn', component, msg, fields),
+    error: (msg, fields) => write('error', component, msg, fields),
+  };
+}
@@ -0,0 +1,108 @@
+import type { Request, Response, NextFunction } from 'express';
+import client from 'prom-client';
+import { sequelize } from './models/index.js';
+import { findScenarioByRoute } from './scenarios.js';
+import { stripSqlLogPrefix } from './queryStats.js';
+
+interface PoolStats {
+  size: number;
+  available: number;
+  using: number;
+  waiting: number;
+}
+
+export const registry = new client.Registry();
+
+// Node process metrics: event loop lag, heap, GC, handles
+client.collectDefaultMetrics({ register: registry });
+
+const httpRequestDuration = new client.Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request duration by route template, status and scenario',
+  labelNames: ['method', 'route', 'status_code', 'scenario', 'variant'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+const dbQueryDuration = new client.Histogram({
+  name: 'db_query_duration_seconds',
+  help: 'Sequelize statement duration by operation and table',
+  labelNames: ['operation', 'table'] as const,
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry],
+});
+
+const dbQueriesTotal = new client.Counter({
+  name: 'db_queries_total',
+  help: 'Sequelize statements executed by operation and table',
+  labelNames: ['operation', 'table'] as const,
+  registers: [registry],
+});
+
+new client.Gauge({
+  name: 'db_pool_connections',
+  help: 'Sequelize connection pool usage (pool max is 10)',
+  labelNames: ['state'] as const,
+  registers: [registry],
+  collect() {
+    // connectionManager.pool is not part of Sequelize's public types
+    const pool = (sequelize.connectionManager as unknown as { pool?: PoolStats }).pool;
+    if (!pool) {
+      return;
+    }
+    this.set({ state: 'active' }, pool.using);
+    this.set({ state: 'idle' }, pool.available);
+    this.set({ state: 'waiting' }, pool.waiting);
+  },
+});
+
+/**
+ * Route template of a matched request, e.g. /api/users/:id/orders
+ * (raw paths would explode label cardinality)
+ */
+export function getRouteTemplate(req: Request): string {
+  return req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+}
+
+/**
+ * Express middleware observing request duration once the response is sent
+ */
+export function metricsMiddleware(req: Request, res: Response, next: NextFunction) {
+  const endTimer = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const route = getRouteTemplate(req);
+    const match = findScenarioByRoute(req.method, route);
+    endTimer({
+      method: req.method,
+      route,
+      status_code: String(res.statusCode),
+      scenario: match?.scenario.id ?? 'none',
+      variant: match?.variant ?? 'none',
+    });
+  });
+
+  next();
+}
+
+/**
+ * Record a statement from the Sequelize logging callback
+ */
+export function observeQuery(sql: string, timing?: number) {
+  const statement = stripSqlLogPrefix(sql).trim();
+  const operation = statement.split(/\s+/)[0]?.toUpperCase() || 'UNKNOWN';
+  const table = statement.match(/\b(?:FROM|INTO|UPDATE)\s+"?(\w+)"?/i)?.[1] ?? 'none';
+
+  dbQueriesTotal.inc({ operation, table });
+  if (typeof timing === 'number') {
+    dbQueryDuration.observe({ operation, table }, timing / 1000);
+  }
+}
+
+/**
+ * GET /metrics handler (Prometheus text format)
+ */
+export async function metricsHandler(_req: Request, res: Response) {
+  res.set('Content-Type', registry.contentType);
+  res.send(await registry.metrics());
+}
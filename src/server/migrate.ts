@@ -0,0 +1,50 @@
+import 'dotenv/config';
+import { sequelize } from './models/index.js';
+import { migrate, rollback, resetDatabase, migrationStatus } from './migrator.js';
+
+/**
+ * Schema migrations CLI
+ *   up            apply pending migrations
+ *   down [steps]  revert the last applied migration(s) (default 1)
+ *   status        list migrations and when they were applied
+ *   reset         drop all migrated tables and apply every migration again
+ */
+const [command = 'status', argument] = process.argv.slice(2);
+
+async function run() {
+  switch (command) {
+    case 'up': {
+      const applied = await migrate();
+      console.log(applied.length > 0 ? `[Migrate] Applied ${applied.join(', ')}` : '[Migrate] Already up to date');
+      break;
+    }
+    case 'down': {
+      const steps = argument ? parseInt(argument) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid number of steps: ${argument}`);
+      }
+      const reverted = await rollback(steps);
+      console.log(reverted.length > 0 ? `[Migrate] Reverted ${reverted.join(', ')}` : '[Migrate] Nothing to revert');
+      break;
+    }
+    case 'status': {
+      for (const { name, appliedAt } of await migrationStatus()) {
+        console.log(`${appliedAt ? '[x]' : '[ ]'} ${name}${appliedAt ? `  (applied ${appliedAt.toISOString()})` : ''}`);
+      }
+      break;
+    }
+    case 'reset':
+      await resetDatabase();
+      console.log('[Migrate] Database reset');
+      break;
+    default:
+      throw new Error(`Unknown command "${command}" (expected up, down, status or reset)`);
+  }
+}
+
+run()
+  .catch((error) => {
+    console.error('[Migrate] Error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => sequelize.close());
@@ -0,0 +1,85 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * users, categories, products, orders and order_items as sync() created them.
+ * Every statement tolerates existing objects, so databases created by
+ * sync() before migrations existed are adopted rather than rejected.
+ */
+const migration: Migration = {
+  name: '001-initial-schema',
+
+  async up({ execute }) {
+    await execute(`CREATE TABLE IF NOT EXISTS "users" (
+      "id" SERIAL,
+      "email" VARCHAR(255) NOT NULL UNIQUE,
+      "name" VARCHAR(255) NOT NULL,
+      "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY ("id")
+    )`);
+    await execute('CREATE UNIQUE INDEX IF NOT EXISTS "users_email" ON "users" ("email")');
+
+    await execute(`CREATE TABLE IF NOT EXISTS "categories" (
+      "id" SERIAL,
+      "name" VARCHAR(255) NOT NULL UNIQUE,
+      "description" TEXT,
+      "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY ("id")
+    )`);
+
+    await execute(`CREATE TABLE IF NOT EXISTS "products" (
+      "id" SERIAL,
+      "name" VARCHAR(255) NOT NULL,
+      "description" TEXT,
+      "price" DECIMAL(10,2) NOT NULL,
+      "stock" INTEGER NOT NULL DEFAULT 0,
+      "categoryId" INTEGER NOT NULL REFERENCES "categories" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY ("id")
+    )`);
+    await execute('CREATE INDEX IF NOT EXISTS "products_category_id" ON "products" ("categoryId")');
+
+    await execute(`DO $$ BEGIN
+      CREATE TYPE "enum_orders_status" AS ENUM ('pending', 'processing', 'shipped', 'delivered', 'cancelled');
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END $$`);
+    await execute(`CREATE TABLE IF NOT EXISTS "orders" (
+      "id" SERIAL,
+      "userId" INTEGER NOT NULL REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      "status" "enum_orders_status" NOT NULL DEFAULT 'pending',
+      "totalAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+      "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY ("id")
+    )`);
+    await execute('CREATE INDEX IF NOT EXISTS "orders_user_id" ON "orders" ("userId")');
+    await execute('CREATE INDEX IF NOT EXISTS "orders_status" ON "orders" ("status")');
+
+    await execute(`CREATE TABLE IF NOT EXISTS "order_items" (
+      "id" SERIAL,
+      "orderId" INTEGER NOT NULL REFERENCES "orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      "productId" INTEGER NOT NULL REFERENCES "products" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      "quantity" INTEGER NOT NULL DEFAULT 1,
+      "price" DECIMAL(10,2) NOT NULL,
+      "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY ("id")
+    )`);
+    await execute('CREATE INDEX IF NOT EXISTS "order_items_order_id" ON "order_items" ("orderId")');
+    await execute('CREATE INDEX IF NOT EXISTS "order_items_product_id" ON "order_items" ("productId")');
+  },
+
+  async down({ execute }) {
+    // Teaching indexes (server/indexes.ts) go with their tables
+    await execute('DROP TABLE IF EXISTS "order_items"');
+    await execute('DROP TABLE IF EXISTS "orders"');
+    await execute('DROP TYPE IF EXISTS "enum_orders_status"');
+    await execute('DROP TABLE IF EXISTS "products"');
+    await execute('DROP TABLE IF EXISTS "categories"');
+    await execute('DROP TABLE IF EXISTS "users"');
+  },
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+import type { Migration } from '../migrator.js';
+
+// Append-only audit trail of order status changes (server/orderLifecycle.ts)
+const migration: Migration = {
+  name: '002-order-status-history',
+
+  async up({ execute }) {
+    await execute(`DO $$ BEGIN
+      CREATE TYPE "enum_order_status_history_fromStatus" AS ENUM ('pending', 'processing', 'shipped', 'delivered', 'cancelled');
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END $$`);
+    await execute(`DO $$ BEGIN
+      CREATE TYPE "enum_order_status_history_toStatus" AS ENUM ('pending', 'processing', 'shipped', 'delivered', 'cancelled');
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END $$`);
+    await execute(`CREATE TABLE IF NOT EXISTS "order_status_history" (
+      "id" SERIAL,
+      "orderId" INTEGER NOT NULL REFERENCES "orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      "fromStatus" "enum_order_status_history_fromStatus",
+      "toStatus" "enum_order_status_history_toStatus" NOT NULL,
+      "actor" VARCHAR(255) NOT NULL,
+      "note" TEXT,
+      "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY ("id")
+    )`);
+    await execute('CREATE INDEX IF NOT EXISTS "order_status_history_order_id" ON "order_status_history" ("orderId")');
+  },
+
+  async down({ execute }) {
+    await execute('DROP TABLE IF EXISTS "order_status_history"');
+    await execute('DROP TYPE IF EXISTS "enum_order_status_history_fromStatus"');
+    await execute('DROP TYPE IF EXISTS "enum_order_status_history_toStatus"');
+  },
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+import type { Migration } from '../migrator.js';
+
+// Background job queue (server/jobQueue.ts)
+const migration: Migration = {
+  name: '003-jobs',
+
+  async up({ execute }) {
+    await execute(`DO $$ BEGIN
+      CREATE TYPE "enum_jobs_status" AS ENUM ('queued', 'running', 'succeeded', 'failed');
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END $$`);
+    await execute(`CREATE TABLE IF NOT EXISTS "jobs" (
+      "id" SERIAL,
+      "type" VARCHAR(64) NOT NULL,
+      "status" "enum_jobs_status" NOT NULL DEFAULT 'queued',
+      "payload" JSONB NOT NULL DEFAULT '{}',
+      "result" JSONB,
+      "error" TEXT,
+      "progress" INTEGER NOT NULL DEFAULT 0,
+      "attempts" INTEGER NOT NULL DEFAULT 0,
+      "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+      "runAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "lockedAt" TIMESTAMP WITH TIME ZONE,
+      "startedAt" TIMESTAMP WITH TIME ZONE,
+      "finishedAt" TIMESTAMP WITH TIME ZONE,
+      "requestId" VARCHAR(128),
+      "traceHeaders" JSONB NOT NULL DEFAULT '{}',
+      "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY ("id")
+    )`);
+    await execute('CREATE INDEX IF NOT EXISTS "jobs_status_run_at" ON "jobs" ("status", "runAt")');
+  },
+
+  async down({ execute }) {
+    await execute('DROP TABLE IF EXISTS "jobs"');
+    await execute('DROP TYPE IF EXISTS "enum_jobs_status"');
+  },
+};
+
+export default migration;
@@ -0,0 +1,35 @@
+import type { Migration } from '../migrator.js';
+
+// One row per `npm run seed` since the last reset (server/seed.ts)
+const migration: Migration = {
+  name: '004-seed-runs',
+
+  async up({ execute }) {
+    await execute(`DO $$ BEGIN
+      CREATE TYPE "enum_seed_runs_status" AS ENUM ('running', 'completed', 'failed');
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END $$`);
+    await execute(`CREATE TABLE IF NOT EXISTS "seed_runs" (
+      "id" SERIAL,
+      "seed" INTEGER,
+      "size" VARCHAR(16) NOT NULL,
+      "config" JSONB NOT NULL,
+      "runId" VARCHAR(64) NOT NULL DEFAULT '',
+      "reset" BOOLEAN NOT NULL,
+      "refDate" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "status" "enum_seed_runs_status" NOT NULL DEFAULT 'running',
+      "counts" JSONB,
+      "finishedAt" TIMESTAMP WITH TIME ZONE,
+      "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY ("id")
+    )`);
+  },
+
+  async down({ execute }) {
+    await execute('DROP TABLE IF EXISTS "seed_runs"');
+    await execute('DROP TYPE IF EXISTS "enum_seed_runs_status"');
+  },
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+import type { Migration } from '../migrator.js';
+
+// Per-entity checkpoints so an interrupted seed run can resume (server/seed.ts)
+const migration: Migration = {
+  name: '005-seed-run-progress',
+
+  async up({ execute }) {
+    await execute(`ALTER TABLE "seed_runs"
+      ADD COLUMN IF NOT EXISTS "randomSeed" INTEGER NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS "progress" JSONB NOT NULL DEFAULT '{}'`);
+  },
+
+  async down({ execute }) {
+    await execute(`ALTER TABLE IF EXISTS "seed_runs"
+      DROP COLUMN IF EXISTS "randomSeed",
+      DROP COLUMN IF EXISTS "progress"`);
+  },
+};
+
+export default migration;
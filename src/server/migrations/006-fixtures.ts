@@ -0,0 +1,25 @@
+import type { Migration } from '../migrator.js';
+
+// Named test fixture sets and the rows they own (server/fixtures.ts)
+const migration: Migration = {
+  name: '006-fixtures',
+
+  async up({ execute }) {
+    await execute(`CREATE TABLE IF NOT EXISTS "fixtures" (
+      "id" SERIAL,
+      "name" VARCHAR(64) NOT NULL UNIQUE,
+      "type" VARCHAR(64) NOT NULL,
+      "params" JSONB NOT NULL DEFAULT '{}',
+      "ids" JSONB NOT NULL,
+      "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY ("id")
+    )`);
+  },
+
+  async down({ execute }) {
+    await execute('DROP TABLE IF EXISTS "fixtures"');
+  },
+};
+
+export default migration;
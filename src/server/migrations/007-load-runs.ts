@@ -0,0 +1,34 @@
+import type { Migration } from '../migrator.js';
+
+// Finished load runs kept for comparison across restarts and replicas (server/loadRunner.ts)
+const migration: Migration = {
+  name: '007-load-runs',
+
+  async up({ execute }) {
+    await execute(`CREATE TABLE IF NOT EXISTS "load_runs" (
+      "id" UUID NOT NULL,
+      "scenarioId" VARCHAR(64),
+      "status" VARCHAR(16) NOT NULL,
+      "config" JSONB NOT NULL,
+      "startedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "finishedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "requests" INTEGER NOT NULL,
+      "errors" INTEGER NOT NULL,
+      "dropped" INTEGER NOT NULL,
+      "statusCodes" JSONB NOT NULL,
+      "throughput" DOUBLE PRECISION NOT NULL,
+      "latency" JSONB,
+      "histogram" JSONB NOT NULL,
+      "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY ("id")
+    )`);
+    await execute('CREATE INDEX IF NOT EXISTS "load_runs_scenario_id" ON "load_runs" ("scenarioId", "startedAt")');
+  },
+
+  async down({ execute }) {
+    await execute('DROP TABLE IF EXISTS "load_runs"');
+  },
+};
+
+export default migration;
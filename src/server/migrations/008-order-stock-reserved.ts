@@ -0,0 +1,21 @@
+import type { Migration } from '../migrator.js';
+
+// Whether an order took its units out of stock, so only those get them back on
+// cancellation (seeded and fixture orders never reserved any)
+const migration: Migration = {
+  name: '008-order-stock-reserved',
+
+  async up({ execute }) {
+    await execute(`ALTER TABLE "orders"
+      ADD COLUMN IF NOT EXISTS "stockReserved" BOOLEAN NOT NULL DEFAULT false`);
+    // Orders placed through the API so far did reserve stock
+    await execute(`UPDATE "orders" SET "stockReserved" = true
+      WHERE id IN (SELECT "orderId" FROM "order_status_history" WHERE "fromStatus" IS NULL AND actor = 'api')`);
+  },
+
+  async down({ execute }) {
+    await execute('ALTER TABLE IF EXISTS "orders" DROP COLUMN IF EXISTS "stockReserved"');
+  },
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+import initialSchema from './001-initial-schema.js';
+import orderStatusHistory from './002-order-status-history.js';
+import jobs from './003-jobs.js';
+import seedRuns from './004-seed-runs.js';
+import seedRunProgress from './005-seed-run-progress.js';
+import fixtures from './006-fixtures.js';
+import loadRuns from './007-load-runs.js';
+import orderStockReserved from './008-order-stock-reserved.js';
+
+// Applied in this order; append new migrations, never reorder or edit applied ones
+export const migrations = [
+  initialSchema,
+  orderStatusHistory,
+  jobs,
+  seedRuns,
+  seedRunProgress,
+  fixtures,
+  loadRuns,
+  orderStockReserved,
+];
@@ -0,0 +1,137 @@
+import { QueryTypes, type Transaction } from 'sequelize';
+import { sequelize } from './models/index.js';
+import { createLogger } from './logger.js';
+import { migrations } from './migrations/index.js';
+
+export interface MigrationContext {
+  transaction: Transaction;
+  // Run one statement inside the migration's transaction
+  execute: (sql: string) => Promise<void>;
+}
+
+export interface Migration {
+  // Recorded in the migrations table once applied
+  name: string;
+  up: (context: MigrationContext) => Promise<void>;
+  down: (context: MigrationContext) => Promise<void>;
+}
+
+export interface MigrationStatus {
+  name: string;
+  appliedAt: Date | null;
+}
+
+const log = createLogger('migrations');
+
+function contextFor(transaction: Transaction): MigrationContext {
+  return {
+    transaction,
+    execute: async (sql) => {
+      await sequelize.query(sql, { transaction });
+    },
+  };
+}
+
+/**
+ * Run fn in one transaction holding the migration lock. Postgres DDL is
+ * transactional, so a failing migration leaves the schema as it was.
+ */
+async function withMigrationLock<T>(fn: (transaction: Transaction) => Promise<T>): Promise<T> {
+  return sequelize.transaction(async (transaction) => {
+    // Replicas starting together migrate one at a time
+    await sequelize.query("SELECT pg_advisory_xact_lock(hashtext('nodejs-tester:migrations'))", { transaction });
+    await sequelize.query(
+      'CREATE TABLE IF NOT EXISTS "migrations" ("name" VARCHAR(255) PRIMARY KEY, "appliedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW())',
+      { transaction }
+    );
+    return fn(transaction);
+  });
+}
+
+async function appliedMigrations(transaction: Transaction): Promise<Map<string, Date>> {
+  const rows = await sequelize.query<{ name: string; appliedAt: Date }>(
+    'SELECT "name", "appliedAt" FROM "migrations"',
+    { type: QueryTypes.SELECT, transaction }
+  );
+  return new Map(rows.map((row) => [row.name, row.appliedAt]));
+}
+
+async function applyMigration(migration: Migration, transaction: Transaction) {
+  await migration.up(contextFor(transaction));
+  await sequelize.query('INSERT INTO "migrations" ("name") VALUES (:name)', {
+    replacements: { name: migration.name },
+    transaction,
+  });
+  log.info(`Applied ${migration.name}`, { migration: migration.name });
+}
+
+/**
+ * Apply every pending migration in order
+ * @returns names of the migrations applied
+ */
+export async function migrate(): Promise<string[]> {
+  return withMigrationLock(async (transaction) => {
+    const applied = await appliedMigrations(transaction);
+    const pending = migrations.filter((migration) => !applied.has(migration.name));
+
+    for (const migration of pending) {
+      await applyMigration(migration, transaction);
+    }
+    return pending.map((migration) => migration.name);
+  });
+}
+
+/**
+ * Revert the last `steps` applied migrations, newest first
+ * @returns names of the migrations reverted
+ */
+export async function rollback(steps = 1): Promise<string[]> {
+  return withMigrationLock(async (transaction) => {
+    const applied = await appliedMigrations(transaction);
+    const unknown = [...applied.keys()].filter((name) => !migrations.some((migration) => migration.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Applied migrations missing from this build: ${unknown.join(', ')}`);
+    }
+
+    const reverting = migrations.filter((migration) => applied.has(migration.name)).slice(-steps).reverse();
+    for (const migration of reverting) {
+      await migration.down(contextFor(transaction));
+      await sequelize.query('DELETE FROM "migrations" WHERE "name" = :name', {
+        replacements: { name: migration.name },
+        transaction,
+      });
+      log.info(`Reverted ${migration.name}`, { migration: migration.name });
+    }
+    return reverting.map((migration) => migration.name);
+  });
+}
+
+/**
+ * Drop everything the migrations create, then apply them all again. Every
+ * down migration runs (they only use IF EXISTS), so tables created by sync()
+ * before migrations existed are dropped too.
+ */
+export async function resetDatabase(): Promise<void> {
+  await withMigrationLock(async (transaction) => {
+    for (const migration of [...migrations].reverse()) {
+      await migration.down(contextFor(transaction));
+    }
+    await sequelize.query('DELETE FROM "migrations"', { transaction });
+    log.info('Dropped all migrated tables');
+
+    for (const migration of migrations) {
+      await applyMigration(migration, transaction);
+    }
+  });
+}
+
+// Every known migration with when it was applied (null while pending)
+export async function migrationStatus(): Promise<MigrationStatus[]> {
+  return withMigrationLock(async (transaction) => {
+    const applied = await appliedMigrations(transaction);
+    return migrations.map((migration) => ({
+      name: migration.name,
+      appliedAt: applied.get(migration.name) ?? null,
+    }));
+  });
+}
@@ -0,0 +1,62 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './index.js';
+import type { FixtureIdsDTO, FixtureType } from '../../shared/types.js';
+
+interface FixtureAttributes {
+  id: number;
+  // Unique; also prefixes the emails and category names of the fixture's rows
+  name: string;
+  type: FixtureType;
+  params: Record<string, unknown>;
+  // Rows created for the fixture, deleted again on teardown
+  ids: FixtureIdsDTO;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface FixtureCreationAttributes extends Optional<FixtureAttributes, 'id' | 'params'> {}
+
+export class Fixture extends Model<FixtureAttributes, FixtureCreationAttributes> implements FixtureAttributes {
+  declare id: number;
+  declare name: string;
+  declare type: FixtureType;
+  declare params: Record<string, unknown>;
+  declare ids: FixtureIdsDTO;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+export function initFixture() {
+  Fixture.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      name: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true,
+      },
+      type: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      params: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {},
+      },
+      ids: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'fixtures',
+      timestamps: true,
+    }
+  );
+}
@@ -0,0 +1,146 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './index.js';
+import type { JobStatus, JobType } from '../../shared/types.js';
+
+interface JobAttributes {
+  id: number;
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  result: unknown;
+  error: string | null;
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  // Set when a worker claims the job and refreshed with every progress update
+  lockedAt: Date | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  requestId: string | null;
+  // Propagation headers of the submitting request (traceparent or sentry-trace/baggage)
+  traceHeaders: Record<string, string>;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface JobCreationAttributes
+  extends Optional<
+    JobAttributes,
+    | 'id'
+    | 'status'
+    | 'result'
+    | 'error'
+    | 'progress'
+    | 'attempts'
+    | 'maxAttempts'
+    | 'runAt'
+    | 'lockedAt'
+    | 'startedAt'
+    | 'finishedAt'
+    | 'requestId'
+    | 'traceHeaders'
+  > {}
+
+export class Job extends Model<JobAttributes, JobCreationAttributes> implements JobAttributes {
+  declare id: number;
+  declare type: JobType;
+  declare status: JobStatus;
+  declare payload: Record<string, unknown>;
+  declare result: unknown;
+  declare error: string | null;
+  declare progress: number;
+  declare attempts: number;
+  declare maxAttempts: number;
+  declare runAt: Date;
+  declare lockedAt: Date | null;
+  declare startedAt: Date | null;
+  declare finishedAt: Date | null;
+  declare requestId: string | null;
+  declare traceHeaders: Record<string, string>;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+export function initJob() {
+  Job.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      type: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.ENUM('queued', 'running', 'succeeded', 'failed'),
+        allowNull: false,
+        defaultValue: 'queued',
+      },
+      payload: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {},
+      },
+      result: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      progress: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      maxAttempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 3,
+      },
+      runAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+      },
+      lockedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      startedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      finishedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      requestId: {
+        type: DataTypes.STRING(128),
+        allowNull: true,
+      },
+      traceHeaders: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {},
+      },
+    },
+    {
+      sequelize,
+      tableName: 'jobs',
+      indexes: [
+        // Workers look for the oldest claimable job
+        { fields: ['status', 'runAt'] },
+      ],
+    }
+  );
+}
@@ -0,0 +1,106 @@
+import { DataTypes, Model } from 'sequelize';
+import { sequelize } from './index.js';
+import type { LatencySummaryDTO, LoadRunConfigDTO, LoadRunDTO } from '../../shared/types.js';
+
+interface LoadRunAttributes {
+  // Assigned when the run starts, so it stays the same once stored
+  id: string;
+  // Copied out of config for filtering
+  scenarioId: string | null;
+  status: LoadRunDTO['status'];
+  config: LoadRunConfigDTO;
+  startedAt: Date;
+  finishedAt: Date;
+  requests: number;
+  errors: number;
+  dropped: number;
+  statusCodes: Record<string, number>;
+  throughput: number;
+  latency: LatencySummaryDTO | null;
+  histogram: LoadRunDTO['histogram'];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Only finished runs are stored; running ones live in the process driving them
+export class LoadRun extends Model<LoadRunAttributes> implements LoadRunAttributes {
+  declare id: string;
+  declare scenarioId: string | null;
+  declare status: LoadRunDTO['status'];
+  declare config: LoadRunConfigDTO;
+  declare startedAt: Date;
+  declare finishedAt: Date;
+  declare requests: number;
+  declare errors: number;
+  declare dropped: number;
+  declare statusCodes: Record<string, number>;
+  declare throughput: number;
+  declare latency: LatencySummaryDTO | null;
+  declare histogram: LoadRunDTO['histogram'];
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+export function initLoadRun() {
+  LoadRun.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+      },
+      scenarioId: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+      },
+      status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+      },
+      config: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      startedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      finishedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      requests: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      errors: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      dropped: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      statusCodes: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      throughput: {
+        type: DataTypes.DOUBLE,
+        allowNull: false,
+      },
+      latency: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      histogram: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'load_runs',
+      timestamps: true,
+    }
+  );
+}
@@ -10,17 +10,20 @@ interface OrderAttributes {
   userId: number;
   status: OrderStatus;
   totalAmount: number;
+  // Set when the order decremented stock (API orders); only those restore it on cancellation
+  stockReserved: boolean;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface OrderCreationAttributes extends Optional<OrderAttributes, 'id' | 'status' | 'totalAmount'> {}
+interface OrderCreationAttributes extends Optional<OrderAttributes, 'id' | 'status' | 'totalAmount' | 'stockReserved'> {}
 
 export class Order extends Model<OrderAttributes, OrderCreationAttributes> implements OrderAttributes {
   declare id: number;
   declare userId: number;
   declare status: OrderStatus;
   declare totalAmount: number;
+  declare stockReserved: boolean;
   declare readonly createdAt: Date;
   declare readonly updatedAt: Date;
 
@@ -55,6 +58,11 @@ export function initOrder() {
         allowNull: false,
         defaultValue: 0,
       },
+      stockReserved: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
     },
     {
       sequelize,
@@ -0,0 +1,75 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './index.js';
+import type { OrderStatus } from './Order.js';
+
+interface OrderStatusHistoryAttributes {
+  id: number;
+  orderId: number;
+  // null for the entry recorded when the order is created
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actor: string;
+  note: string | null;
+  createdAt?: Date;
+}
+
+interface OrderStatusHistoryCreationAttributes
+  extends Optional<OrderStatusHistoryAttributes, 'id' | 'fromStatus' | 'note'> {}
+
+export class OrderStatusHistory
+  extends Model<OrderStatusHistoryAttributes, OrderStatusHistoryCreationAttributes>
+  implements OrderStatusHistoryAttributes {
+  declare id: number;
+  declare orderId: number;
+  declare fromStatus: OrderStatus | null;
+  declare toStatus: OrderStatus;
+  declare actor: string;
+  declare note: string | null;
+  declare readonly createdAt: Date;
+}
+
+export function initOrderStatusHistory() {
+  OrderStatusHistory.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      orderId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'orders',
+          key: 'id',
+        },
+      },
+      fromStatus: {
+        type: DataTypes.ENUM('pending', 'processing', 'shipped', 'delivered', 'cancelled'),
+        allowNull: true,
+      },
+      toStatus: {
+        type: DataTypes.ENUM('pending', 'processing', 'shipped', 'delivered', 'cancelled'),
+        allowNull: false,
+      },
+      actor: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+      },
+      note: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'order_status_history',
+      // Rows are append-only
+      timestamps: true,
+      updatedAt: false,
+      indexes: [
+        { fields: ['orderId'] },
+      ],
+    }
+  );
+}
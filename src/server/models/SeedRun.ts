@@ -0,0 +1,110 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './index.js';
+import type { SeedRunDTO, SeedSize } from '../../shared/types.js';
+
+interface SeedRunAttributes {
+  id: number;
+  // SEED_RANDOM value (null for an unseeded, non-reproducible run)
+  seed: number | null;
+  size: SeedSize;
+  // SEED_CONFIGS entry the run used
+  config: SeedRunDTO['config'];
+  runId: string;
+  reset: boolean;
+  // End of the window random order dates were drawn from
+  refDate: Date;
+  status: SeedRunDTO['status'];
+  // Base for per-batch faker seeds: SEED_RANDOM, or a random value for unseeded runs
+  randomSeed: number;
+  progress: SeedRunDTO['progress'];
+  // Row counts once completed
+  counts: SeedRunDTO['counts'];
+  finishedAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface SeedRunCreationAttributes
+  extends Optional<SeedRunAttributes, 'id' | 'seed' | 'runId' | 'status' | 'progress' | 'counts' | 'finishedAt'> {}
+
+export class SeedRun extends Model<SeedRunAttributes, SeedRunCreationAttributes> implements SeedRunAttributes {
+  declare id: number;
+  declare seed: number | null;
+  declare size: SeedSize;
+  declare config: SeedRunDTO['config'];
+  declare runId: string;
+  declare reset: boolean;
+  declare refDate: Date;
+  declare status: SeedRunDTO['status'];
+  declare randomSeed: number;
+  declare progress: SeedRunDTO['progress'];
+  declare counts: SeedRunDTO['counts'];
+  declare finishedAt: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+export function initSeedRun() {
+  SeedRun.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      seed: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      size: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+      },
+      config: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      runId: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        defaultValue: '',
+      },
+      reset: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+      },
+      refDate: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.ENUM('running', 'completed', 'failed'),
+        allowNull: false,
+        defaultValue: 'running',
+      },
+      randomSeed: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      progress: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {},
+      },
+      counts: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      finishedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'seed_runs',
+      timestamps: true,
+    }
+  );
+}
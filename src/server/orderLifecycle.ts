@@ -0,0 +1,83 @@
+import type { Transaction } from 'sequelize';
+import { Order, OrderStatusHistory, sequelize } from './models/index.js';
+import type { OrderStatus } from './models/Order.js';
+import { restoreStock } from './inventory.js';
+import { ORDER_TRANSITIONS } from '../shared/types.js';
+
+/**
+ * A status change the state graph does not allow (e.g. delivered -> pending).
+ * A business-rule violation rather than a server fault: routes answer 409.
+ */
+export class IllegalOrderTransitionError extends Error {
+  readonly from: OrderStatus;
+  readonly to: OrderStatus;
+  readonly allowed: OrderStatus[];
+
+  constructor(orderId: number, from: OrderStatus, to: OrderStatus) {
+    const allowed = ORDER_TRANSITIONS[from];
+    super(
+      `Order ${orderId} cannot move from ${from} to ${to}` +
+        (allowed.length ? ` (allowed: ${allowed.join(', ')})` : ` (${from} is final)`)
+    );
+    this.name = 'IllegalOrderTransitionError';
+    this.from = from;
+    this.to = to;
+    this.allowed = allowed;
+  }
+}
+
+/**
+ * Record the first history entry for a newly created order
+ */
+export async function recordOrderCreated(order: Order, actor: string, transaction?: Transaction) {
+  return OrderStatusHistory.create(
+    { orderId: order.id, fromStatus: null, toStatus: order.status, actor },
+    { transaction }
+  );
+}
+
+/**
+ * Move an order to a new status and append the history entry in one
+ * transaction (cancelling also restores stock the order reserved). The order row
+ * is locked so concurrent transitions apply one after the other against the
+ * current status.
+ * Returns null when the order does not exist.
+ */
+export async function transitionOrder(
+  orderId: number,
+  to: OrderStatus,
+  actor: string,
+  note: string | null = null
+): Promise<{ order: Order; entry: OrderStatusHistory } | null> {
+  return sequelize.transaction(async (t) => {
+    const order = await Order.findByPk(orderId, { transaction: t, lock: t.LOCK.UPDATE });
+    if (!order) {
+      return null;
+    }
+
+    const from = order.status;
+    if (!ORDER_TRANSITIONS[from].includes(to)) {
+      throw new IllegalOrderTransitionError(order.id, from, to);
+    }
+
+    // Seeded and fixture orders never took units out of stock, so there is nothing to put back
+    const restock = to === 'cancelled' && order.stockReserved;
+    if (restock) {
+      await restoreStock(order.id, t);
+    }
+
+    await order.update({ status: to, ...(restock && { stockReserved: false }) }, { transaction: t });
+    const entry = await OrderStatusHistory.create(
+      { orderId: order.id, fromStatus: from, toStatus: to, actor, note },
+      { transaction: t }
+    );
+    return { order, entry };
+  });
+}
+
+export async function getOrderHistory(orderId: number) {
+  return OrderStatusHistory.findAll({
+    where: { orderId },
+    order: [['createdAt', 'ASC'], ['id', 'ASC']],
+  });
+}
@@ -0,0 +1,94 @@
+import type { Response } from 'express';
+import { getRequestContext, RequestContext, QueryStats } from './requestContext.js';
+import { addBreadcrumb } from './sentry.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('n-plus-one');
+
+// A normalized statement repeating more than this many times in one request is flagged as N+1
+const N_PLUS_ONE_THRESHOLD = parseInt(process.env.N_PLUS_ONE_THRESHOLD || '5');
+
+export interface QueryStatsSummary {
+  count: number;
+  totalTime: number;
+  duplicates: Array<{ statement: string; count: number }>;
+  nPlusOne: boolean;
+}
+
+/**
+ * Drop the "Executing (<connection>): " prefix Sequelize puts on logged SQL
+ * ("Executed (<connection>): " with benchmark: true)
+ */
+export function stripSqlLogPrefix(sql: string): string {
+  return sql.replace(/^Execut(?:ing|ed) \([^)]*\):\s*/, '');
+}
+
+/**
+ * Reduce a SQL statement to its shape so repeated queries with different
+ * literal values compare equal.
+ */
+export function normalizeSql(sql: string): string {
+  return stripSqlLogPrefix(sql)
+    .replace(/'(?:[^']|'')*'/g, '?')
+    .replace(/\$\d+/g, '?')
+    .replace(/\b\d+(?:\.\d+)?\b/g, '?')
+    .replace(/\(\s*\?(?:\s*,\s*\?)*\s*\)/g, '(?)')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Record a statement against the current request (no-op outside a request)
+ */
+export function recordQuery(sql: string, timing?: number) {
+  const stats = getRequestContext()?.queries;
+  if (!stats) {
+    return;
+  }
+
+  const statement = normalizeSql(sql);
+  stats.count += 1;
+  stats.totalTime += timing ?? 0;
+  stats.statements.set(statement, (stats.statements.get(statement) || 0) + 1);
+}
+
+export function summarizeQueryStats(stats: QueryStats): QueryStatsSummary {
+  const duplicates = Array.from(stats.statements.entries())
+    .filter(([, count]) => count > 1)
+    .map(([statement, count]) => ({ statement, count }))
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    count: stats.count,
+    totalTime: stats.totalTime,
+    duplicates,
+    nPlusOne: duplicates.some((duplicate) => duplicate.count > N_PLUS_ONE_THRESHOLD),
+  };
+}
+
+/**
+ * Response header hook: exposes query accounting and flags N+1 patterns
+ */
+export function applyQueryStatsHeaders(context: RequestContext, res: Response) {
+  const summary = summarizeQueryStats(context.queries);
+
+  res.setHeader('X-Query-Count', String(summary.count));
+  res.setHeader('X-Query-Time', summary.totalTime.toFixed(2));
+
+  if (summary.nPlusOne) {
+    const worst = summary.duplicates[0];
+    res.setHeader('X-N-Plus-One', String(worst.count));
+
+    addBreadcrumb('database', 'N+1 query pattern detected', {
+      route: `${context.method} ${context.path}`,
+      statement: worst.statement,
+      repeats: worst.count,
+      threshold: N_PLUS_ONE_THRESHOLD,
+    }, 'warning');
+    log.warn(`${context.method} ${context.path} repeated a statement ${worst.count} times`, {
+      requestId: context.requestId,
+      statement: worst.statement,
+      repeats: worst.count,
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import { literal, Op } from 'sequelize';
+import { Order, Product } from './models/index.js';
+import { withSpan } from './telemetry.js';
+
+// Report queries shared by the synchronous endpoints and the background job handlers
+
+/**
+ * Orders per day for the last `days` days
+ * INTENTIONALLY INEFFICIENT: Aggregation without proper indexes
+ */
+export async function generateDailyReport(days: number) {
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+
+  // BAD: Aggregation on unindexed columns
+  return withSpan(
+    'generate-daily-report',
+    'db.query',
+    async () => {
+      return Order.findAll({
+        attributes: [
+          [literal("DATE(\"createdAt\")"), 'date'],
+          [literal('COUNT(*)'), 'orderCount'],
+          [literal('SUM("totalAmount")'), 'totalRevenue'],
+          [literal('AVG("totalAmount")'), 'averageOrderValue'],
+        ],
+        where: {
+          createdAt: {
+            [Op.gte]: startDate,
+          },
+        },
+        group: ['createdAt'],
+        order: [['createdAt', 'DESC']],
+        raw: true,
+      });
+    },
+    { 'db.operation': 'SELECT', 'db.aggregation': 'GROUP BY' }
+  );
+}
+
+/**
+ * Units sold and revenue per product
+ * INTENTIONALLY INEFFICIENT: Cartesian join / cross join behavior
+ */
+export async function generateProductReport() {
+  // BAD: This query is extremely inefficient
+  // Fetches all products with all their order items and orders
+  const report = await withSpan(
+    'generate-product-report',
+    'db.query',
+    async () => {
+      return Product.findAll({
+        include: [
+          {
+            association: 'category',
+          },
+          {
+            association: 'orderItems',
+            include: [
+              {
+                association: 'order',
+                include: ['user'],
+              },
+            ],
+          },
+        ],
+      });
+    },
+    { 'db.operation': 'SELECT', 'db.warning': 'cartesian_join' }
+  );
+
+  // Calculate stats (also inefficient - should be done in DB)
+  return withSpan(
+    'calculate-product-stats',
+    'function',
+    async () => {
+      return report.map((product: any) => {
+        const items = product.orderItems || [];
+        const totalSold = items.reduce((sum: number, item: any) => sum + item.quantity, 0);
+        const totalRevenue = items.reduce((sum: number, item: any) => sum + (item.quantity * parseFloat(item.price.toString())), 0);
+        
+        return {
+          id: product.id,
+          name: product.name,
+          category: product.category?.name,
+          stock: product.stock,
+          totalSold,
+          totalRevenue,
+          orderCount: items.length,
+        };
+      });
+    }
+  );
+}
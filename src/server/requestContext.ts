@@ -0,0 +1,84 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+
+export interface QueryStats {
+  count: number;
+  totalTime: number;
+  // Normalized statement -> number of executions
+  statements: Map<string, number>;
+}
+
+export interface RequestContext {
+  // X-Request-Id: taken from the incoming header when well-formed, generated otherwise
+  requestId: string;
+  method: string;
+  path: string;
+  queries: QueryStats;
+  // SELECT statements to re-run under EXPLAIN ANALYZE (null when not requested)
+  explain: string[] | null;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Get the context of the request currently being handled (if any).
+ * Works anywhere in the async call chain of a request, including the
+ * Sequelize logging callback.
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+function createContext(requestId: string, method: string, path: string): RequestContext {
+  return {
+    requestId,
+    method,
+    path,
+    queries: { count: 0, totalTime: 0, statements: new Map() },
+    explain: null,
+  };
+}
+
+/**
+ * Run work that is not an HTTP request (e.g. a background job) in its own
+ * context, so its queries are counted and its log lines carry requestId
+ */
+export function runInContext<T>(requestId: string, method: string, path: string, fn: () => T): T {
+  return storage.run(createContext(requestId, method, path), fn);
+}
+
+// Callbacks run right before the response headers are written
+type HeaderHook = (context: RequestContext, res: Response) => void;
+const headerHooks: HeaderHook[] = [];
+
+export function onResponseHeaders(hook: HeaderHook) {
+  headerHooks.push(hook);
+}
+
+/**
+ * Express middleware that runs the rest of the request inside its own context
+ */
+export function requestContextMiddleware(req: Request, res: Response, next: NextFunction) {
+  const incomingId = req.get('X-Request-Id');
+  const context = createContext(
+    incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID(),
+    req.method,
+    req.path
+  );
+
+  res.setHeader('X-Request-Id', context.requestId);
+
+  // Headers can only be set before they are flushed, so hook into writeHead
+  const originalWriteHead = res.writeHead;
+  res.writeHead = function (this: Response, ...args: unknown[]) {
+    for (const hook of headerHooks) {
+      hook(context, this);
+    }
+    return (originalWriteHead as (...params: unknown[]) => Response).apply(this, args);
+  } as typeof res.writeHead;
+
+  storage.run(context, () => next());
+}
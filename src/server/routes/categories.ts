@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import type { Response } from 'express';
+import { literal, UniqueConstraintError } from 'sequelize';
+import { Category, Product, sequelize } from '../models/index.js';
+import { addBreadcrumb } from '../sentry.js';
+import { validate } from '../validation.js';
+import { idParamsSchema, categoryInputSchema, categoryPatchSchema } from '../../shared/schemas.js';
+
+const router = Router();
+
+const productCount = literal('(SELECT COUNT(*) FROM products WHERE products."categoryId" = "Category".id)');
+
+// Names are unique in the database, so duplicates surface as a constraint error
+function conflictOnDuplicateName(error: unknown, res: Response): boolean {
+  if (error instanceof UniqueConstraintError) {
+    res.status(409).json({ error: 'Conflict', message: 'A category with this name already exists' });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * GET /api/categories
+ * Get all categories with product counts
+ */
+router.get('/', async (_req, res, next) => {
+  try {
+    const categories = await Category.findAll({
+      attributes: { include: [[productCount, 'productCount']] },
+      order: [['name', 'ASC']],
+    });
+
+    res.json({
+      data: categories,
+      total: categories.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/categories/:id
+ * Get a single category with its product count
+ */
+router.get('/:id', validate({ params: idParamsSchema }), async (req, res, next) => {
+  try {
+    const category = await Category.findByPk(req.params.id, {
+      attributes: { include: [[productCount, 'productCount']] },
+    });
+
+    if (!category) {
+      return res.status(404).json({ error: 'Not Found', message: 'Category not found' });
+    }
+
+    res.json(category);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/categories
+ * Create a category (names are unique)
+ * Body: { name, description? }
+ */
+router.post('/', validate({ body: categoryInputSchema }), async (req, res, next) => {
+  try {
+    const { name, description = null } = req.body;
+    addBreadcrumb('api', 'Creating category', { name });
+
+    const category = await Category.create({ name, description });
+    res.status(201).json(category);
+  } catch (error) {
+    if (conflictOnDuplicateName(error, res)) {
+      return;
+    }
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/categories/:id
+ * Rename a category or change its description
+ */
+router.patch('/:id', validate({ params: idParamsSchema, body: categoryPatchSchema }), async (req, res, next) => {
+  try {
+    const category = await Category.findByPk(req.params.id);
+    if (!category) {
+      return res.status(404).json({ error: 'Not Found', message: 'Category not found' });
+    }
+
+    const { name, description } = req.body;
+    addBreadcrumb('api', 'Updating category', { categoryId: category.id, fields: Object.keys(req.body) });
+
+    await category.update({
+      ...(name !== undefined && { name }),
+      ...(description !== undefined && { description }),
+    });
+    res.json(category);
+  } catch (error) {
+    if (conflictOnDuplicateName(error, res)) {
+      return;
+    }
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/categories/:id
+ * Delete a category that has no products (409 otherwise)
+ */
+router.delete('/:id', validate({ params: idParamsSchema }), async (req, res, next) => {
+  try {
+    // products.categoryId cascades on delete; the FOR UPDATE lock blocks products
+    // being created in this category until the delete commits
+    const result = await sequelize.transaction(async (t) => {
+      const category = await Category.findByPk(req.params.id, { transaction: t, lock: t.LOCK.UPDATE });
+      if (!category) {
+        return { status: 404 as const };
+      }
+
+      const products = await Product.count({ where: { categoryId: category.id }, transaction: t });
+      if (products > 0) {
+        return { status: 409 as const, products };
+      }
+
+      addBreadcrumb('api', 'Deleting category', { categoryId: category.id });
+      await category.destroy({ transaction: t });
+      return { status: 204 as const };
+    });
+
+    if (result.status === 404) {
+      return res.status(404).json({ error: 'Not Found', message: 'Category not found' });
+    }
+    if (result.status === 409) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: `Category is in use by ${result.products} products`,
+      });
+    }
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import type { NextFunction, Response } from 'express';
+import { ChaosTargetMissingError, exhaustPool, hitStatementTimeout, holdLock, triggerDeadlock } from '../dbChaos.js';
+import { validate } from '../validation.js';
+import {
+  deadlockChaosSchema,
+  lockChaosSchema,
+  poolChaosSchema,
+  statementTimeoutChaosSchema,
+} from '../../shared/schemas.js';
+
+const router = Router();
+
+// Missing target rows are the caller's problem (usually an unseeded database)
+function handleChaosError(error: unknown, res: Response, next: NextFunction) {
+  if (error instanceof ChaosTargetMissingError) {
+    return res.status(404).json({ error: 'Not Found', message: error.message });
+  }
+  next(error);
+}
+
+/**
+ * POST /api/debug/db-chaos/lock
+ * Hold a row or table lock for holdMs while contenders time out waiting for it
+ * Body: { mode: 'row' | 'table', table, id, holdMs, contenders, lockTimeoutMs }
+ */
+router.post('/lock', validate({ body: lockChaosSchema }), async (req, res, next) => {
+  try {
+    res.json(await holdLock(req.body));
+  } catch (error) {
+    handleChaosError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/debug/db-chaos/pool-exhaustion
+ * Drain the connection pool with long transactions and time a query waiting behind them
+ * Body: { connections, holdMs }
+ */
+router.post('/pool-exhaustion', validate({ body: poolChaosSchema }), async (req, res, next) => {
+  try {
+    res.json(await exhaustPool(req.body));
+  } catch (error) {
+    handleChaosError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/debug/db-chaos/deadlock
+ * Update two orders from two transactions in opposite order
+ * Body: { orderIds: [id, id] }
+ */
+router.post('/deadlock', validate({ body: deadlockChaosSchema }), async (req, res, next) => {
+  try {
+    res.json(await triggerDeadlock(req.body.orderIds));
+  } catch (error) {
+    handleChaosError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/debug/db-chaos/statement-timeout
+ * Run a query that outlives a SET LOCAL statement_timeout
+ * Body: { timeoutMs }
+ */
+router.post('/statement-timeout', validate({ body: statementTimeoutChaosSchema }), async (req, res, next) => {
+  try {
+    res.json(await hitStatementTimeout(req.body.timeoutMs));
+  } catch (error) {
+    handleChaosError(error, res, next);
+  }
+});
+
+export default router;
@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { getTopStatements, resetStatements, DbStatsUnavailableError } from '../dbStats.js';
+import { addBreadcrumb } from '../sentry.js';
+import { validate } from '../validation.js';
+import { dbStatsQuerySchema } from '../../shared/schemas.js';
+
+const router = Router();
+
+/**
+ * GET /api/debug/db-stats
+ * Top statements from pg_stat_statements by total/mean time, calls or rows
+ */
+router.get('/', validate({ query: dbStatsQuerySchema }), async (req, res, next) => {
+  try {
+    const { orderBy, limit } = req.query;
+
+    const statements = await getTopStatements(orderBy, limit);
+
+    res.json({
+      data: statements,
+      total: statements.length,
+      orderBy,
+    });
+  } catch (error) {
+    if (error instanceof DbStatsUnavailableError) {
+      return res.status(503).json({ error: 'Service Unavailable', message: error.message });
+    }
+    next(error);
+  }
+});
+
+/**
+ * POST /api/debug/db-stats/reset
+ * Clear pg_stat_statements so the next test run starts from zero
+ */
+router.post('/reset', async (_req, res, next) => {
+  try {
+    addBreadcrumb('debug', 'Resetting pg_stat_statements');
+
+    await resetStatements();
+
+    res.json({
+      reset: true,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof DbStatsUnavailableError) {
+      return res.status(503).json({ error: 'Service Unavailable', message: error.message });
+    }
+    next(error);
+  }
+});
+
+export default router;
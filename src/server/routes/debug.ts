@@ -1,14 +1,32 @@
+import { setTimeout as sleep } from 'timers/promises';
 import { Router } from 'express';
-import { Sentry, addBreadcrumb, withSpan, setSentryUser, isSentryEnabled } from '../sentry.js';
+import { Sentry, addBreadcrumb, setSentryUser, isSentryEnabled } from '../sentry.js';
+import { withSpan } from '../telemetry.js';
+import { getCapturedEvents, clearCapturedEvents, isLocalIngestEnabled } from '../sentryIngest.js';
+import { validate } from '../validation.js';
+import { SeedRun } from '../models/index.js';
+import {
+  debugErrorSchema,
+  slowQuerySchema,
+  memoryQuerySchema,
+  debugMessageSchema,
+  debugBreadcrumbsSchema,
+  debugUserContextSchema,
+  capturedEventsQuerySchema,
+} from '../../shared/schemas.js';
+import type { SeedRunDTO } from '../../shared/types.js';
 
 const router = Router();
 
+// How long /health waits for the latest seed run before answering without it
+const HEALTH_SEED_RUN_TIMEOUT_MS = 500;
+
 /**
  * POST /api/debug/error
  * Trigger an intentional error for Sentry testing
  */
-router.post('/error', async (req, res, _next) => {
-  const { message = 'Test error from debug endpoint', type = 'Error' } = req.body;
+router.post('/error', validate({ body: debugErrorSchema }), async (req, res, _next) => {
+  const { message, type } = req.body;
   
   addBreadcrumb('debug', 'Triggering intentional error', { message, type });
   
@@ -75,10 +93,9 @@ router.post('/unhandled', async (_req, res) => {
  * GET /api/debug/slow
  * Simulate a slow endpoint with custom spans
  */
-router.get('/slow', async (req, res, next) => {
+router.get('/slow', validate({ query: slowQuerySchema }), async (req, res, next) => {
   try {
-    const { delay = 2000 } = req.query;
-    const delayMs = parseInt(delay as string);
+    const { delay: delayMs } = req.query;
 
     addBreadcrumb('debug', 'Starting slow operation', { delayMs });
 
@@ -136,10 +153,9 @@ router.get('/slow', async (req, res, next) => {
  * GET /api/debug/memory
  * Simulate memory-intensive operation
  */
-router.get('/memory', async (req, res, next) => {
+router.get('/memory', validate({ query: memoryQuerySchema }), async (req, res, next) => {
   try {
-    const { size = 10 } = req.query;
-    const sizeMB = parseInt(size as string);
+    const { size: sizeMB } = req.query;
 
     addBreadcrumb('debug', 'Starting memory-intensive operation', { sizeMB });
 
@@ -189,13 +205,13 @@ router.get('/memory', async (req, res, next) => {
  * POST /api/debug/message
  * Send a custom message to Sentry
  */
-router.post('/message', async (req, res) => {
-  const { message = 'Test message', level = 'info' } = req.body;
+router.post('/message', validate({ body: debugMessageSchema }), async (req, res) => {
+  const { message, level } = req.body;
   
   addBreadcrumb('debug', 'Sending custom message', { message, level });
 
   if (isSentryEnabled()) {
-    Sentry.captureMessage(message, level as Sentry.SeverityLevel);
+    Sentry.captureMessage(message, level);
   }
 
   const eventId = isSentryEnabled() ? Sentry.lastEventId() : undefined;
@@ -212,8 +228,8 @@ router.post('/message', async (req, res) => {
  * POST /api/debug/breadcrumbs
  * Test breadcrumb creation
  */
-router.post('/breadcrumbs', async (req, res) => {
-  const { count = 5 } = req.body;
+router.post('/breadcrumbs', validate({ body: debugBreadcrumbsSchema }), async (req, res) => {
+  const { count } = req.body;
 
   // Create multiple breadcrumbs
   for (let i = 1; i <= count; i++) {
@@ -242,8 +258,8 @@ router.post('/breadcrumbs', async (req, res) => {
  * POST /api/debug/user-context
  * Test user context setting
  */
-router.post('/user-context', async (req, res) => {
-  const { id = 123, email = 'test@example.com', name = 'Test User' } = req.body;
+router.post('/user-context', validate({ body: debugUserContextSchema }), async (req, res) => {
+  const { id, email, name } = req.body;
 
   setSentryUser({ id, email, name });
 
@@ -264,60 +280,36 @@ router.post('/user-context', async (req, res) => {
  */
 router.get('/transaction', async (_req, res, next) => {
   try {
-    const runSteps = async () => {
-      const steps: string[] = [];
-
-      await new Promise(resolve => setTimeout(resolve, 50));
-      steps.push('initialized');
-
-      await new Promise(resolve => setTimeout(resolve, 100));
-      steps.push('data fetched');
-
-      await new Promise(resolve => setTimeout(resolve, 75));
-      steps.push('processed');
-
-      await new Promise(resolve => setTimeout(resolve, 25));
-      steps.push('cleaned up');
-
-      return { steps };
-    };
-
-    const result = isSentryEnabled()
-      ? await Sentry.startSpan(
-          {
-            name: 'custom-transaction',
-            op: 'test',
-            attributes: {
-              'custom.attribute': 'value',
-            },
-          },
-          async () => {
-            const steps: string[] = [];
+    const result = await withSpan(
+      'custom-transaction',
+      'test',
+      async () => {
+        const steps: string[] = [];
 
-            await Sentry.startSpan({ name: 'initialize', op: 'function' }, async () => {
-              await new Promise(resolve => setTimeout(resolve, 50));
-              steps.push('initialized');
-            });
+        await withSpan('initialize', 'function', async () => {
+          await new Promise(resolve => setTimeout(resolve, 50));
+          steps.push('initialized');
+        });
 
-            await Sentry.startSpan({ name: 'fetch-data', op: 'db.query' }, async () => {
-              await new Promise(resolve => setTimeout(resolve, 100));
-              steps.push('data fetched');
-            });
+        await withSpan('fetch-data', 'db.query', async () => {
+          await new Promise(resolve => setTimeout(resolve, 100));
+          steps.push('data fetched');
+        });
 
-            await Sentry.startSpan({ name: 'process-data', op: 'function' }, async () => {
-              await new Promise(resolve => setTimeout(resolve, 75));
-              steps.push('processed');
-            });
+        await withSpan('process-data', 'function', async () => {
+          await new Promise(resolve => setTimeout(resolve, 75));
+          steps.push('processed');
+        });
 
-            await Sentry.startSpan({ name: 'cleanup', op: 'function' }, async () => {
-              await new Promise(resolve => setTimeout(resolve, 25));
-              steps.push('cleaned up');
-            });
+        await withSpan('cleanup', 'function', async () => {
+          await new Promise(resolve => setTimeout(resolve, 25));
+          steps.push('cleaned up');
+        });
 
-            return { steps };
-          }
-        )
-      : await runSteps();
+        return { steps };
+      },
+      { 'custom.attribute': 'value' }
+    );
 
     res.json({
       ...result,
@@ -328,13 +320,60 @@ router.get('/transaction', async (_req, res, next) => {
   }
 });
 
+/**
+ * GET /api/debug/captured-events
+ * Events received by the local Sentry ingest stand-in (SENTRY_LOCAL_INGEST=true)
+ * Filter with ?kind=error|transaction|span|replay|feedback|other and ?eventId=
+ */
+router.get('/captured-events', validate({ query: capturedEventsQuerySchema }), async (req, res) => {
+  if (!isLocalIngestEnabled()) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: 'Local Sentry ingest is disabled (set SENTRY_LOCAL_INGEST=true)',
+    });
+  }
+
+  // Flush so events from the request that just finished are included
+  if (isSentryEnabled()) {
+    await Sentry.flush(2000);
+  }
+
+  const events = getCapturedEvents(req.query);
+
+  res.json({
+    data: events,
+    total: events.length,
+  });
+});
+
+/**
+ * DELETE /api/debug/captured-events
+ * Clear captured events between test cases
+ */
+router.delete('/captured-events', (_req, res) => {
+  if (!isLocalIngestEnabled()) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: 'Local Sentry ingest is disabled (set SENTRY_LOCAL_INGEST=true)',
+    });
+  }
+
+  res.json({ cleared: clearCapturedEvents() });
+});
+
 /**
  * GET /api/debug/health
- * Health check with Sentry status
+ * Health check with Sentry status and the latest seed run
  */
-router.get('/health', (_req, res) => {
+router.get('/health', async (_req, res) => {
   const client = isSentryEnabled() ? Sentry.getClient() : null;
-  
+
+  // null when unseeded, or when the database is down or too busy to answer in time; health still answers
+  const latestSeedRun = await Promise.race([
+    SeedRun.findOne({ order: [['id', 'DESC']] }),
+    sleep(HEALTH_SEED_RUN_TIMEOUT_MS, null, { ref: false }),
+  ]).catch(() => null);
+
   res.json({
     status: 'ok',
     sentry: {
@@ -342,8 +381,44 @@ router.get('/health', (_req, res) => {
       dsn: client?.getDsn()?.toString() || 'not configured',
     },
     environment: process.env.NODE_ENV || 'development',
+    latestSeedRun: latestSeedRun && toSeedRunDTO(latestSeedRun),
     timestamp: new Date().toISOString(),
   });
 });
 
+/**
+ * GET /api/debug/dataset
+ * The seed runs that produced the current dataset (with per-entity progress)
+ */
+router.get('/dataset', async (_req, res, next) => {
+  try {
+    const seedRuns = await SeedRun.findAll({ order: [['id', 'ASC']] });
+    const data = seedRuns.map(toSeedRunDTO);
+
+    res.json({
+      data,
+      total: data.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+function toSeedRunDTO(run: SeedRun): SeedRunDTO {
+  return {
+    id: run.id,
+    seed: run.seed,
+    size: run.size,
+    config: run.config,
+    runId: run.runId,
+    reset: run.reset,
+    refDate: run.refDate.toISOString(),
+    status: run.status,
+    progress: run.progress,
+    counts: run.counts,
+    createdAt: run.createdAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() ?? null,
+  };
+}
+
 export default router;
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { getStubState, resetStubs, updateStubProfile } from '../stubServices.js';
+import { getServiceUrl } from '../checkout.js';
+import { addBreadcrumb } from '../sentry.js';
+import { validate } from '../validation.js';
+import { downstreamParamsSchema, stubProfilePatchSchema } from '../../shared/schemas.js';
+import type { DownstreamService, DownstreamServiceDTO } from '../../shared/types.js';
+
+const router = Router();
+
+const SERVICES: DownstreamService[] = ['payment', 'shipping', 'tax'];
+
+function toDownstreamServiceDTO(service: DownstreamService): DownstreamServiceDTO {
+  return { service, url: getServiceUrl(service), ...getStubState(service) };
+}
+
+/**
+ * GET /api/debug/downstream
+ * Downstream services checkout calls, with each stub's profile and counters
+ */
+router.get('/', (_req, res) => {
+  const data = SERVICES.map(toDownstreamServiceDTO);
+
+  res.json({
+    data,
+    total: data.length,
+  });
+});
+
+/**
+ * POST /api/debug/downstream/reset
+ * Restore the default stub profiles and zero the counters
+ */
+router.post('/reset', (_req, res) => {
+  addBreadcrumb('debug', 'Resetting stub services');
+
+  resetStubs();
+
+  res.json({ data: SERVICES.map(toDownstreamServiceDTO) });
+});
+
+/**
+ * PATCH /api/debug/downstream/:service
+ * Change how a stub behaves (only affects services still pointing at the stubs)
+ * Body: { latencyMs, jitterMs, errorRate, errorStatus } (all optional)
+ */
+router.patch(
+  '/:service',
+  validate({ params: downstreamParamsSchema, body: stubProfilePatchSchema }),
+  (req, res) => {
+    addBreadcrumb('debug', 'Updating stub profile', { service: req.params.service, ...req.body });
+
+    updateStubProfile(req.params.service, req.body);
+
+    res.json(toDownstreamServiceDTO(req.params.service));
+  }
+);
+
+export default router;
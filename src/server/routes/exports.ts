@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import { streamExport, exportContentTypes, exportFileName } from '../exporter.js';
+import { addBreadcrumb } from '../sentry.js';
+import { createLogger } from '../logger.js';
+import { validate } from '../validation.js';
+import { exportParamsSchema, exportQuerySchema } from '../../shared/schemas.js';
+
+const router = Router();
+const log = createLogger('export');
+
+/**
+ * GET /api/exports/:resource
+ * EFFICIENT: Streams users, orders or order-items in id-ordered batches
+ * Query: format=csv|ndjson (default ndjson), gzip=true
+ */
+router.get('/:resource', validate({ params: exportParamsSchema, query: exportQuerySchema }), async (req, res, next) => {
+  const { resource } = req.params;
+  const { format, gzip } = req.query;
+  const filename = exportFileName(resource, format, gzip);
+  const start = performance.now();
+  let rows = 0;
+
+  addBreadcrumb('api', 'Streaming export', { resource, format, gzip });
+
+  res.setHeader('Content-Type', gzip ? 'application/gzip' : exportContentTypes[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  // pipeline() waits for 'drain' before pulling the next batch and stops
+  // reading from Postgres if the client goes away
+  const source = Readable.from(streamExport(resource, format, (count) => { rows += count; }));
+
+  try {
+    if (gzip) {
+      await pipeline(source, zlib.createGzip(), res);
+    } else {
+      await pipeline(source, res);
+    }
+    log.info(`Exported ${rows} ${resource}`, {
+      resource,
+      format,
+      gzip,
+      rows,
+      durationMs: Math.round(performance.now() - start),
+    });
+  } catch (error) {
+    if (!res.headersSent) {
+      // Nothing was streamed yet, so answer with the usual JSON error
+      res.removeHeader('Content-Disposition');
+      return next(error);
+    }
+    // Mid-stream failures (including client disconnects) can only cut the response short
+    log.warn(`Export of ${resource} aborted after ${rows} rows`, { resource, rows, err: error });
+  }
+});
+
+export default router;
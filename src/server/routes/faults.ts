@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import {
+  addFaultRule,
+  clearFaultRules,
+  getFaultRule,
+  listFaultRules,
+  removeFaultRule,
+  toFaultRuleDTO,
+} from '../faultInjection.js';
+import { addBreadcrumb } from '../sentry.js';
+import { validate } from '../validation.js';
+import { faultRuleRequestSchema, stringIdParamsSchema } from '../../shared/schemas.js';
+
+const router = Router();
+
+/**
+ * GET /api/debug/faults
+ * List fault rules with how often each matched and injected
+ */
+router.get('/', (_req, res) => {
+  const data = listFaultRules().map(toFaultRuleDTO);
+
+  res.json({
+    data,
+    total: data.length,
+  });
+});
+
+/**
+ * POST /api/debug/faults
+ * Add a fault rule for any /api route
+ * Body: { route, method, probability, fault, options, maxInjections }
+ */
+router.post('/', validate({ body: faultRuleRequestSchema }), (req, res) => {
+  addBreadcrumb('debug', 'Adding fault rule', { route: req.body.route, fault: req.body.fault });
+
+  const rule = addFaultRule(req.body);
+
+  res.status(201).location(`${req.baseUrl}/${rule.id}`).json(toFaultRuleDTO(rule));
+});
+
+/**
+ * GET /api/debug/faults/:id
+ * Get a fault rule
+ */
+router.get('/:id', validate({ params: stringIdParamsSchema }), (req, res) => {
+  const rule = getFaultRule(req.params.id);
+
+  if (!rule) {
+    return res.status(404).json({ error: 'Not Found', message: 'Fault rule not found' });
+  }
+
+  res.json(toFaultRuleDTO(rule));
+});
+
+/**
+ * DELETE /api/debug/faults/:id
+ * Remove a fault rule
+ */
+router.delete('/:id', validate({ params: stringIdParamsSchema }), (req, res) => {
+  if (!removeFaultRule(req.params.id)) {
+    return res.status(404).json({ error: 'Not Found', message: 'Fault rule not found' });
+  }
+
+  res.status(204).end();
+});
+
+/**
+ * DELETE /api/debug/faults
+ * Remove every fault rule
+ */
+router.delete('/', (_req, res) => {
+  res.json({ deleted: clearFaultRules() });
+});
+
+export default router;
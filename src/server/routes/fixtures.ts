@@ -0,0 +1,107 @@
+import { Router } from 'express';
+import { UniqueConstraintError } from 'sequelize';
+import { createFixture, getFixture, listFixtures, teardownFixture, toFixtureDTO } from '../fixtures.js';
+import { addBreadcrumb } from '../sentry.js';
+import { validate } from '../validation.js';
+import { fixtureRequestSchema, nameParamsSchema } from '../../shared/schemas.js';
+
+const router = Router();
+
+/**
+ * GET /api/debug/fixtures
+ * List the fixtures that have not been torn down
+ */
+router.get('/', async (_req, res, next) => {
+  try {
+    const fixtures = await listFixtures();
+
+    res.json({
+      data: fixtures.map(toFixtureDTO),
+      total: fixtures.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/debug/fixtures
+ * Create an isolated fixture set and return the ids of its rows
+ * Body: { type: 'user-with-orders' | 'product-with-order-items' | 'empty-category', name?, params }
+ */
+router.post('/', validate({ body: fixtureRequestSchema }), async (req, res, next) => {
+  try {
+    addBreadcrumb('debug', 'Creating fixture', { type: req.body.type, name: req.body.name });
+
+    const fixture = await createFixture(req.body);
+
+    res.status(201).location(`${req.baseUrl}/${fixture.name}`).json(toFixtureDTO(fixture));
+  } catch (error) {
+    if (error instanceof UniqueConstraintError) {
+      return res.status(409).json({ error: 'Conflict', message: 'A fixture with this name already exists' });
+    }
+    next(error);
+  }
+});
+
+/**
+ * GET /api/debug/fixtures/:name
+ * Get a fixture and the ids of its rows
+ */
+router.get('/:name', validate({ params: nameParamsSchema }), async (req, res, next) => {
+  try {
+    const fixture = await getFixture(req.params.name);
+
+    if (!fixture) {
+      return res.status(404).json({ error: 'Not Found', message: 'Fixture not found' });
+    }
+
+    res.json(toFixtureDTO(fixture));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/debug/fixtures/:name
+ * Tear down a fixture, deleting every row it created
+ */
+router.delete('/:name', validate({ params: nameParamsSchema }), async (req, res, next) => {
+  try {
+    const fixture = await getFixture(req.params.name);
+
+    if (!fixture) {
+      return res.status(404).json({ error: 'Not Found', message: 'Fixture not found' });
+    }
+
+    addBreadcrumb('debug', 'Tearing down fixture', { name: fixture.name, type: fixture.type });
+
+    await teardownFixture(fixture);
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/debug/fixtures
+ * Tear down every fixture (e.g. after a test suite)
+ */
+router.delete('/', async (_req, res, next) => {
+  try {
+    const fixtures = await listFixtures();
+
+    addBreadcrumb('debug', 'Tearing down all fixtures', { count: fixtures.length });
+
+    for (const fixture of fixtures) {
+      await teardownFixture(fixture);
+    }
+
+    res.json({ deleted: fixtures.map((fixture) => fixture.name) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
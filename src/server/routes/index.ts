@@ -2,7 +2,19 @@ import { Router } from 'express';
 import usersRouter from './users.js';
 import ordersRouter from './orders.js';
 import productsRouter from './products.js';
+import categoriesRouter from './categories.js';
 import debugRouter from './debug.js';
+import indexesRouter from './indexes.js';
+import dbStatsRouter from './dbStats.js';
+import scenariosRouter from './scenarios.js';
+import loadRunsRouter from './loadRuns.js';
+import exportsRouter from './exports.js';
+import jobsRouter from './jobs.js';
+import fixturesRouter from './fixtures.js';
+import faultsRouter from './faults.js';
+import dbChaosRouter from './dbChaos.js';
+import downstreamRouter from './downstream.js';
+import { isLocalIngestEnabled } from '../sentryIngest.js';
 
 export function createRoutes(): Router {
   const router = Router();
@@ -10,12 +22,28 @@ export function createRoutes(): Router {
   router.use('/users', usersRouter);
   router.use('/orders', ordersRouter);
   router.use('/products', productsRouter);
+  router.use('/categories', categoriesRouter);
+  router.use('/debug/indexes', indexesRouter);
+  router.use('/debug/db-stats', dbStatsRouter);
+  router.use('/debug/fixtures', fixturesRouter);
+  router.use('/debug/faults', faultsRouter);
+  router.use('/debug/db-chaos', dbChaosRouter);
+  router.use('/debug/downstream', downstreamRouter);
   router.use('/debug', debugRouter);
+  router.use('/scenarios', scenariosRouter);
+  router.use('/load-runs', loadRunsRouter);
+  router.use('/exports', exportsRouter);
+  router.use('/jobs', jobsRouter);
+
+  router.get('/config', (req, res) => {
+    // With the local ingest stand-in the browser posts envelopes back to this server
+    const localIngestDsn = isLocalIngestEnabled()
+      ? `${req.protocol}://local@${req.get('x-forwarded-host') || req.get('host')}/1`
+      : '';
 
-  router.get('/config', (_req, res) => {
     res.json({
       sentryEnabled: ['true', '1', 'yes'].includes((process.env.SENTRY_ENABLED || '').toLowerCase()),
-      sentryDsn: process.env.VITE_SENTRY_DSN || '',
+      sentryDsn: process.env.VITE_SENTRY_DSN || localIngestDsn,
       sentryEnvironment: process.env.SENTRY_ENVIRONMENT || 'development',
       sentryRelease: process.env.SENTRY_RELEASE || 'nodejs-tester@1.0.0',
     });
@@ -30,7 +58,12 @@ export function createRoutes(): Router {
         users: '/api/users',
         orders: '/api/orders',
         products: '/api/products',
+        categories: '/api/categories',
         debug: '/api/debug',
+        scenarios: '/api/scenarios',
+        loadRuns: '/api/load-runs',
+        exports: '/api/exports',
+        jobs: '/api/jobs',
       },
     });
   });
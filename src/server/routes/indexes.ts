@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import {
+  findTeachingIndex,
+  listTeachingIndexes,
+  createTeachingIndex,
+  dropTeachingIndex,
+} from '../indexes.js';
+import { addBreadcrumb } from '../sentry.js';
+import { withSpan } from '../telemetry.js';
+import { validate } from '../validation.js';
+import { nameParamsSchema } from '../../shared/schemas.js';
+
+const router = Router();
+
+/**
+ * GET /api/debug/indexes
+ * List the intentionally missing "teaching" indexes with their current state
+ */
+router.get('/', async (_req, res, next) => {
+  try {
+    const indexes = await listTeachingIndexes();
+
+    res.json({
+      data: indexes,
+      total: indexes.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/debug/indexes/:name
+ * Build a teaching index concurrently and report its build time and size
+ * (200 with buildMs null when a valid index already exists)
+ */
+router.post('/:name', validate({ params: nameParamsSchema }), async (req, res, next) => {
+  try {
+    const index = findTeachingIndex(req.params.name);
+
+    if (!index) {
+      return res.status(404).json({ error: 'Not Found', message: 'Teaching index not found' });
+    }
+
+    addBreadcrumb('debug', 'Creating teaching index', { index: index.name, table: index.table });
+
+    const buildMs = await withSpan(
+      `create-index-${index.name}`,
+      'db.ddl',
+      () => createTeachingIndex(index),
+      { 'db.operation': 'CREATE INDEX', 'db.table': index.table }
+    );
+    const indexes = await listTeachingIndexes();
+    const data = indexes.find((current) => current.name === index.name);
+
+    if (buildMs === null) {
+      return res.json({ data, buildMs, info: 'Index already exists, nothing was built' });
+    }
+
+    res.status(201).json({
+      data,
+      buildMs,
+      info: 'Re-run the matching scenario to compare timings',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/debug/indexes/:name
+ * Drop a teaching index concurrently to restore the slow behavior
+ */
+router.delete('/:name', validate({ params: nameParamsSchema }), async (req, res, next) => {
+  try {
+    const index = findTeachingIndex(req.params.name);
+
+    if (!index) {
+      return res.status(404).json({ error: 'Not Found', message: 'Teaching index not found' });
+    }
+
+    addBreadcrumb('debug', 'Dropping teaching index', { index: index.name, table: index.table });
+
+    const dropMs = await withSpan(
+      `drop-index-${index.name}`,
+      'db.ddl',
+      () => dropTeachingIndex(index),
+      { 'db.operation': 'DROP INDEX', 'db.table': index.table }
+    );
+    const indexes = await listTeachingIndexes();
+
+    res.json({
+      data: indexes.find((current) => current.name === index.name),
+      dropMs,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
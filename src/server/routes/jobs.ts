@@ -0,0 +1,104 @@
+import { Router } from 'express';
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import { enqueueJob, getJob, listJobs, toJobDTO, exportJobFilePath, type ExportJobResult } from '../jobQueue.js';
+import { exportContentTypes } from '../exporter.js';
+import { addBreadcrumb } from '../sentry.js';
+import { validate } from '../validation.js';
+import { idParamsSchema, jobRequestSchema, jobsQuerySchema } from '../../shared/schemas.js';
+import type { ExportFormat } from '../../shared/types.js';
+
+const router = Router();
+
+/**
+ * GET /api/jobs
+ * List recent jobs (newest first), filtered by ?type= and ?status=
+ */
+router.get('/', validate({ query: jobsQuerySchema }), async (req, res, next) => {
+  try {
+    const jobs = await listJobs(req.query);
+
+    res.json({
+      data: jobs.map(toJobDTO),
+      total: jobs.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/jobs
+ * Queue a report or export for the background worker
+ * Body: { type: 'orders-daily-report' | 'products-report' | 'export', payload, maxAttempts }
+ */
+router.post('/', validate({ body: jobRequestSchema }), async (req, res, next) => {
+  try {
+    addBreadcrumb('jobs', 'Queueing job', { type: req.body.type, payload: req.body.payload });
+
+    const job = await enqueueJob(req.body);
+
+    res.status(202).location(`${req.baseUrl}/${job.id}`).json(toJobDTO(job));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/jobs/:id
+ * Poll a job's status, progress and (once succeeded) result
+ */
+router.get('/:id', validate({ params: idParamsSchema }), async (req, res, next) => {
+  try {
+    const job = await getJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Not Found', message: 'Job not found' });
+    }
+
+    res.json(toJobDTO(job));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/jobs/:id/download
+ * Download the file written by a succeeded export job
+ */
+router.get('/:id/download', validate({ params: idParamsSchema }), async (req, res, next) => {
+  try {
+    const job = await getJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Not Found', message: 'Job not found' });
+    }
+    if (job.type !== 'export' || job.status !== 'succeeded') {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: job.type === 'export' ? `Export job is ${job.status}` : `${job.type} jobs have no file (see result)`,
+      });
+    }
+
+    const { fileName } = job.result as ExportJobResult;
+    const filePath = exportJobFilePath(job.id, job.attempts, fileName);
+    const stat = await fs.promises.stat(filePath).catch(() => null);
+    if (!stat) {
+      // Files live on the local disk of the process that ran the job
+      return res.status(404).json({ error: 'Not Found', message: 'Export file is no longer available' });
+    }
+
+    const gzip = fileName.endsWith('.gz');
+    res.setHeader('Content-Type', gzip ? 'application/gzip' : exportContentTypes[(job.payload as { format: ExportFormat }).format]);
+    res.setHeader('Content-Length', stat.size);
+    res.attachment(fileName);
+
+    await pipeline(fs.createReadStream(filePath), res);
+  } catch (error) {
+    if (!res.headersSent) {
+      return next(error);
+    }
+  }
+});
+
+export default router;
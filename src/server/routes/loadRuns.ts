@@ -0,0 +1,109 @@
+import { Router } from 'express';
+import { findScenario, buildScenarioUrl } from '../scenarios.js';
+import { startLoadRun, getLoadRun, listLoadRuns, cancelLoadRun } from '../loadRunner.js';
+import { addBreadcrumb } from '../sentry.js';
+import { validate } from '../validation.js';
+import { loadRunRequestSchema, loadRunsQuerySchema, stringIdParamsSchema } from '../../shared/schemas.js';
+import type { LoadRunConfigDTO } from '../../shared/types.js';
+
+const router = Router();
+
+/**
+ * GET /api/load-runs
+ * List running and recent load runs (newest first)
+ */
+router.get('/', validate({ query: loadRunsQuerySchema }), async (req, res, next) => {
+  try {
+    const data = await listLoadRuns({ scenarioId: req.query.scenarioId });
+
+    res.json({
+      data,
+      total: data.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/load-runs
+ * Start a load run against a scenario endpoint (or any /api path)
+ * Body: { scenarioId, variant: 'slow' | 'optimized' } or { path, method },
+ *       plus concurrency, durationSeconds, ratePerSecond, timeoutMs, body (JSON for POST)
+ */
+router.post('/', validate({ body: loadRunRequestSchema }), (req, res) => {
+  const { scenarioId, variant, concurrency, durationSeconds, ratePerSecond, timeoutMs, body } = req.body;
+  let { path, method } = req.body;
+
+  if (scenarioId) {
+    const scenario = findScenario(scenarioId);
+    if (!scenario) {
+      return res.status(404).json({ error: 'Not Found', message: 'Scenario not found' });
+    }
+    const endpoint = variant === 'optimized' ? scenario.optimized : scenario.slow;
+    if (!endpoint) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: `Scenario ${scenarioId} has no ${variant} endpoint`,
+      });
+    }
+    path = buildScenarioUrl(endpoint);
+    method = endpoint.method;
+  }
+
+  const config: LoadRunConfigDTO = {
+    scenarioId: scenarioId || null,
+    method,
+    // The schema requires a path whenever there is no scenarioId
+    path: path!,
+    concurrency,
+    durationSeconds,
+    ratePerSecond,
+    timeoutMs,
+    body,
+  };
+
+  addBreadcrumb('load', 'Starting load run', { ...config });
+
+  const run = startLoadRun(config);
+
+  res.status(202).json(run);
+});
+
+/**
+ * GET /api/load-runs/:id
+ * Get a load run with its latency histogram and percentiles
+ */
+router.get('/:id', validate({ params: stringIdParamsSchema }), async (req, res, next) => {
+  try {
+    const run = await getLoadRun(req.params.id);
+
+    if (!run) {
+      return res.status(404).json({ error: 'Not Found', message: 'Load run not found' });
+    }
+
+    res.json(run);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/load-runs/:id/cancel
+ * Stop a running load run early
+ */
+router.post('/:id/cancel', validate({ params: stringIdParamsSchema }), async (req, res, next) => {
+  try {
+    const run = await cancelLoadRun(req.params.id);
+
+    if (!run) {
+      return res.status(404).json({ error: 'Not Found', message: 'Load run not found' });
+    }
+
+    res.json(run);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
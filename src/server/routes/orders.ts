@@ -1,7 +1,38 @@
 import { Router } from 'express';
-import { Op, literal } from 'sequelize';
+import type { Response } from 'express';
+import { Op, type Transaction } from 'sequelize';
 import { Order, OrderItem, Product, sequelize } from '../models/index.js';
-import { addBreadcrumb, withSpan } from '../sentry.js';
+import { Sentry, addBreadcrumb, isSentryEnabled } from '../sentry.js';
+import { withSpan } from '../telemetry.js';
+import { validate } from '../validation.js';
+import { findPageByKeyset, InvalidCursorError } from '../keyset.js';
+import { generateDailyReport } from '../reports.js';
+import {
+  idParamsSchema,
+  paginationQuerySchema,
+  keysetQuerySchema,
+  orderSearchQuerySchema,
+  dailyReportQuerySchema,
+  createOrderSchema,
+  racyOrderQuerySchema,
+  orderTransitionSchema,
+} from '../../shared/schemas.js';
+import {
+  IllegalOrderTransitionError,
+  getOrderHistory,
+  recordOrderCreated,
+  transitionOrder,
+} from '../orderLifecycle.js';
+import {
+  InsufficientStockError,
+  UnknownProductError,
+  reserveStock,
+  reserveStockRacy,
+  type OrderLine,
+} from '../inventory.js';
+import { checkoutOrder, isCheckoutEnabled } from '../checkout.js';
+import { DownstreamError } from '../httpClient.js';
+import type { CheckoutDTO } from '../../shared/types.js';
 
 const router = Router();
 
@@ -9,10 +40,9 @@ const router = Router();
  * GET /api/orders
  * Get orders with pagination
  */
-router.get('/', async (req, res, next) => {
+router.get('/', validate({ query: paginationQuerySchema }), async (req, res, next) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 20, 100);
+    const { page, pageSize } = req.query;
     const offset = (page - 1) * pageSize;
 
     addBreadcrumb('api', 'Fetching orders', { page, pageSize });
@@ -36,11 +66,43 @@ router.get('/', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/orders/keyset
+ * EFFICIENT: Keyset pagination (newest first, like GET /api/orders); pass nextCursor/prevCursor back as ?cursor=
+ */
+router.get('/keyset', validate({ query: keysetQuerySchema }), async (req, res, next) => {
+  try {
+    const { cursor, pageSize, estimate } = req.query;
+
+    addBreadcrumb('api', 'Fetching orders with keyset pagination', { pageSize, hasCursor: !!cursor });
+
+    const page = await findPageByKeyset(Order, {
+      sortColumn: 'createdAt',
+      sortDirection: 'DESC',
+      pageSize,
+      cursor,
+      include: ['user'],
+      estimate,
+    });
+
+    res.json(page);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: `query.cursor: ${error.message}`,
+        fields: [{ location: 'query', path: 'cursor', message: error.message }],
+      });
+    }
+    next(error);
+  }
+});
+
 /**
  * GET /api/orders/search
  * INTENTIONALLY INEFFICIENT: Full table scan on date range (no index on createdAt)
  */
-router.get('/search', async (req, res, next) => {
+router.get('/search', validate({ query: orderSearchQuerySchema }), async (req, res, next) => {
   try {
     const { startDate, endDate, status, minAmount } = req.query;
     
@@ -54,8 +116,8 @@ router.get('/search', async (req, res, next) => {
     if (startDate || endDate) {
       whereClause.createdAt = {
         [Op.between]: [
-          new Date(startDate as string || '2020-01-01'),
-          new Date(endDate as string || new Date().toISOString()),
+          startDate ?? new Date('2020-01-01'),
+          endDate ?? new Date(),
         ],
       };
     }
@@ -64,9 +126,9 @@ router.get('/search', async (req, res, next) => {
       whereClause.status = status;
     }
 
-    if (minAmount) {
+    if (minAmount !== undefined) {
       whereClause.totalAmount = {
-        [Op.gte]: parseFloat(minAmount as string),
+        [Op.gte]: minAmount,
       };
     }
 
@@ -97,7 +159,7 @@ router.get('/search', async (req, res, next) => {
  * GET /api/orders/:id
  * Get a single order
  */
-router.get('/:id', async (req, res, next) => {
+router.get('/:id', validate({ params: idParamsSchema }), async (req, res, next) => {
   try {
     const { id } = req.params;
     
@@ -119,7 +181,7 @@ router.get('/:id', async (req, res, next) => {
  * GET /api/orders/:id/full
  * INTENTIONALLY INEFFICIENT: Deep nested eager loading
  */
-router.get('/:id/full', async (req, res, next) => {
+router.get('/:id/full', validate({ params: idParamsSchema }), async (req, res, next) => {
   try {
     const { id } = req.params;
     
@@ -187,40 +249,15 @@ router.get('/:id/full', async (req, res, next) => {
 /**
  * GET /api/orders/report/daily
  * INTENTIONALLY INEFFICIENT: Aggregation without proper indexes
+ * (POST /api/jobs with type orders-daily-report runs it in the background)
  */
-router.get('/report/daily', async (req, res, next) => {
+router.get('/report/daily', validate({ query: dailyReportQuerySchema }), async (req, res, next) => {
   try {
-    const { days = 30 } = req.query;
+    const { days } = req.query;
     
     addBreadcrumb('api', 'Generating daily report', { days, warning: 'slow aggregation' });
 
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - parseInt(days as string));
-
-    // BAD: Aggregation on unindexed columns
-    const report = await withSpan(
-      'generate-daily-report',
-      'db.query',
-      async () => {
-        return Order.findAll({
-          attributes: [
-            [literal("DATE(\"createdAt\")"), 'date'],
-            [literal('COUNT(*)'), 'orderCount'],
-            [literal('SUM("totalAmount")'), 'totalRevenue'],
-            [literal('AVG("totalAmount")'), 'averageOrderValue'],
-          ],
-          where: {
-            createdAt: {
-              [Op.gte]: startDate,
-            },
-          },
-          group: ['createdAt'],
-          order: [['createdAt', 'DESC']],
-          raw: true,
-        });
-      },
-      { 'db.operation': 'SELECT', 'db.aggregation': 'GROUP BY' }
-    );
+    const report = await generateDailyReport(days);
 
     res.json({
       data: report,
@@ -231,65 +268,219 @@ router.get('/report/daily', async (req, res, next) => {
   }
 });
 
+/**
+ * Insert the order, its items (priced from the reserved products) and the
+ * first history entry
+ */
+async function insertOrder(
+  userId: number,
+  lines: OrderLine[],
+  products: Map<number, Product>,
+  transaction: Transaction
+): Promise<Order> {
+  const orderItems = lines.map((line) => ({
+    productId: line.productId,
+    quantity: line.quantity,
+    price: parseFloat(products.get(line.productId)!.price.toString()),
+  }));
+  const totalAmount = orderItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  const order = await Order.create({ userId, totalAmount, status: 'pending', stockReserved: true }, { transaction });
+  await OrderItem.bulkCreate(
+    orderItems.map((item) => ({ ...item, orderId: order.id })),
+    { transaction }
+  );
+  await recordOrderCreated(order, 'api', transaction);
+
+  return order;
+}
+
+/**
+ * Map stock errors to 400/409 responses. Returns false for any other error.
+ */
+function respondToStockError(error: unknown, res: Response): boolean {
+  if (error instanceof UnknownProductError) {
+    res.status(400).json({ error: 'Bad Request', message: error.message });
+    return true;
+  }
+  if (error instanceof InsufficientStockError) {
+    addBreadcrumb('api', error.message, { productId: error.productId }, 'warning');
+    res.status(409).json({
+      error: 'Conflict',
+      message: error.message,
+      productId: error.productId,
+      requested: error.requested,
+      available: error.available,
+    });
+    return true;
+  }
+  return false;
+}
+
 /**
  * POST /api/orders
- * Create a new order
+ * Create a new order, reserving stock with SELECT ... FOR UPDATE
+ * (409 when a product does not have enough units), then check out against
+ * the payment, shipping and tax services. A downstream failure cancels the
+ * order (restoring stock) and answers 502.
  */
-router.post('/', async (req, res, next) => {
+router.post('/', validate({ body: createOrderSchema }), async (req, res, next) => {
   try {
     const { userId, items } = req.body;
 
-    if (!userId || !items || !Array.isArray(items) || items.length === 0) {
-      return res.status(400).json({ 
-        error: 'Bad Request', 
-        message: 'userId and items array are required' 
-      });
-    }
-
     addBreadcrumb('api', 'Creating new order', { userId, itemCount: items.length });
 
-    // Use transaction for order creation
+    // Stock reservation and the order rows commit or roll back together
     const result = await sequelize.transaction(async (t) => {
-      // Calculate total from products
-      let totalAmount = 0;
-      const orderItems: Array<{ productId: number; quantity: number; price: number }> = [];
-
-      for (const item of items) {
-        const product = await Product.findByPk(item.productId, { transaction: t });
-        if (!product) {
-          throw new Error(`Product ${item.productId} not found`);
+      const products = await reserveStock(items, t);
+      return insertOrder(userId, items, products, t);
+    });
+
+    // Downstream calls happen outside the transaction, so no locks are held meanwhile
+    let checkout: CheckoutDTO | undefined;
+    if (isCheckoutEnabled()) {
+      try {
+        checkout = await checkoutOrder(result.id, items, parseFloat(result.totalAmount.toString()));
+      } catch (error) {
+        if (!(error instanceof DownstreamError)) {
+          throw error;
         }
-        const price = parseFloat(product.price.toString());
-        totalAmount += price * item.quantity;
-        orderItems.push({
-          productId: item.productId,
-          quantity: item.quantity,
-          price,
+        addBreadcrumb('api', error.message, { service: error.service, status: error.status }, 'error');
+        await transitionOrder(result.id, 'cancelled', 'checkout', error.message);
+        const eventId = isSentryEnabled()
+          ? Sentry.captureException(error, { tags: { 'downstream.service': error.service } })
+          : undefined;
+
+        return res.status(502).json({
+          error: 'Bad Gateway',
+          message: error.message,
+          service: error.service,
+          orderId: result.id,
+          sentryEventId: eventId,
         });
       }
+    }
 
-      // Create order
-      const order = await Order.create(
-        { userId, totalAmount, status: 'pending' },
-        { transaction: t }
-      );
+    // Fetch the complete order
+    const order = await Order.findByPk(result.id, {
+      include: ['items'],
+    });
 
-      // Create order items
-      await OrderItem.bulkCreate(
-        orderItems.map(item => ({ ...item, orderId: order.id })),
-        { transaction: t }
-      );
+    res.status(201).json({ ...order!.toJSON(), checkout });
+  } catch (error) {
+    if (respondToStockError(error, res)) {
+      return;
+    }
+    next(error);
+  }
+});
 
-      return order;
+/**
+ * POST /api/orders/racy
+ * INTENTIONALLY RACY: checks and decrements stock with an unlocked
+ * read-modify-write (lost updates under concurrent load)
+ * Query: delayMs (pause between the stock read and write, default 50)
+ */
+router.post('/racy', validate({ body: createOrderSchema, query: racyOrderQuerySchema }), async (req, res, next) => {
+  try {
+    const { userId, items } = req.body;
+    const { delayMs } = req.query;
+
+    addBreadcrumb('api', 'Creating order with racy stock check', {
+      userId,
+      itemCount: items.length,
+      warning: 'lost updates under concurrency',
     });
 
-    // Fetch the complete order
+    // BAD: the stock write happens outside any lock or transaction
+    const products = await reserveStockRacy(items, delayMs);
+    const result = await sequelize.transaction((t) => insertOrder(userId, items, products, t));
+
     const order = await Order.findByPk(result.id, {
       include: ['items'],
     });
 
-    res.status(201).json(order);
+    res.status(201).json({
+      ...order!.toJSON(),
+      warning: 'Stock was decremented without locking; concurrent orders can oversell',
+    });
   } catch (error) {
+    if (respondToStockError(error, res)) {
+      return;
+    }
+    next(error);
+  }
+});
+
+/**
+ * GET /api/orders/:id/transitions
+ * Status history of an order (oldest first)
+ */
+router.get('/:id/transitions', validate({ params: idParamsSchema }), async (req, res, next) => {
+  try {
+    const order = await Order.findByPk(req.params.id, { attributes: ['id', 'status'] });
+    if (!order) {
+      return res.status(404).json({ error: 'Not Found', message: 'Order not found' });
+    }
+
+    const history = await getOrderHistory(order.id);
+
+    res.json({
+      data: history,
+      total: history.length,
+      status: order.status,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/orders/:id/transitions
+ * Move an order along the lifecycle graph
+ * (pending -> processing -> shipped -> delivered, cancel before shipping)
+ * Body: { status, actor?, note? }
+ */
+router.post('/:id/transitions', validate({ params: idParamsSchema, body: orderTransitionSchema }), async (req, res, next) => {
+  const { status, actor, note } = req.body;
+
+  try {
+    addBreadcrumb('api', 'Transitioning order', { orderId: req.params.id, status, actor });
+
+    const result = await withSpan(
+      'order.transition',
+      'function',
+      () => transitionOrder(req.params.id, status, actor, note),
+      { 'order.id': req.params.id, 'order.status.to': status }
+    );
+
+    if (!result) {
+      return res.status(404).json({ error: 'Not Found', message: 'Order not found' });
+    }
+
+    res.json({
+      order: result.order,
+      transition: result.entry,
+    });
+  } catch (error) {
+    if (error instanceof IllegalOrderTransitionError) {
+      // Business-rule violation: report it as a warning, not a server error
+      addBreadcrumb('api', error.message, { from: error.from, to: error.to }, 'warning');
+      const eventId = isSentryEnabled()
+        ? Sentry.captureException(error, {
+            level: 'warning',
+            tags: { 'order.transition': `${error.from}->${error.to}` },
+          })
+        : undefined;
+
+      return res.status(409).json({
+        error: 'Conflict',
+        message: error.message,
+        currentStatus: error.from,
+        allowedTransitions: error.allowed,
+        sentryEventId: eventId,
+      });
+    }
     next(error);
   }
 });
@@ -1,7 +1,19 @@
 import { Router } from 'express';
-import { Op, literal } from 'sequelize';
-import { Product, Category, sequelize } from '../models/index.js';
-import { addBreadcrumb, withSpan } from '../sentry.js';
+import { Op, literal, ForeignKeyConstraintError } from 'sequelize';
+import { Product, Category, OrderItem, sequelize } from '../models/index.js';
+import { addBreadcrumb } from '../sentry.js';
+import { withSpan } from '../telemetry.js';
+import { validate } from '../validation.js';
+import { findPageByKeyset, InvalidCursorError } from '../keyset.js';
+import { generateProductReport } from '../reports.js';
+import {
+  idParamsSchema,
+  paginationQuerySchema,
+  keysetQuerySchema,
+  productSearchQuerySchema,
+  productInputSchema,
+  productPatchSchema,
+} from '../../shared/schemas.js';
 
 const router = Router();
 
@@ -9,10 +21,9 @@ const router = Router();
  * GET /api/products
  * Get products with pagination
  */
-router.get('/', async (req, res, next) => {
+router.get('/', validate({ query: paginationQuerySchema }), async (req, res, next) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 20, 100);
+    const { page, pageSize } = req.query;
     const offset = (page - 1) * pageSize;
 
     const { count, rows } = await Product.findAndCountAll({
@@ -34,11 +45,43 @@ router.get('/', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/products/keyset
+ * EFFICIENT: Keyset pagination (by name, like GET /api/products); pass nextCursor/prevCursor back as ?cursor=
+ */
+router.get('/keyset', validate({ query: keysetQuerySchema }), async (req, res, next) => {
+  try {
+    const { cursor, pageSize, estimate } = req.query;
+
+    addBreadcrumb('api', 'Fetching products with keyset pagination', { pageSize, hasCursor: !!cursor });
+
+    const page = await findPageByKeyset(Product, {
+      sortColumn: 'name',
+      sortDirection: 'ASC',
+      pageSize,
+      cursor,
+      include: ['category'],
+      estimate,
+    });
+
+    res.json(page);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: `query.cursor: ${error.message}`,
+        fields: [{ location: 'query', path: 'cursor', message: error.message }],
+      });
+    }
+    next(error);
+  }
+});
+
 /**
  * GET /api/products/search
  * INTENTIONALLY INEFFICIENT: LIKE query on non-indexed column
  */
-router.get('/search', async (req, res, next) => {
+router.get('/search', validate({ query: productSearchQuerySchema }), async (req, res, next) => {
   try {
     const { query, category } = req.query;
     
@@ -79,6 +122,7 @@ router.get('/search', async (req, res, next) => {
 /**
  * GET /api/products/report
  * INTENTIONALLY INEFFICIENT: Cartesian join / cross join behavior
+ * (POST /api/jobs with type products-report runs it in the background)
  */
 router.get('/report', async (_req, res, next) => {
   try {
@@ -86,54 +130,7 @@ router.get('/report', async (_req, res, next) => {
       warning: 'very slow query' 
     });
 
-    // BAD: This query is extremely inefficient
-    // Fetches all products with all their order items and orders
-    const report = await withSpan(
-      'generate-product-report',
-      'db.query',
-      async () => {
-        return Product.findAll({
-          include: [
-            {
-              association: 'category',
-            },
-            {
-              association: 'orderItems',
-              include: [
-                {
-                  association: 'order',
-                  include: ['user'],
-                },
-              ],
-            },
-          ],
-        });
-      },
-      { 'db.operation': 'SELECT', 'db.warning': 'cartesian_join' }
-    );
-
-    // Calculate stats (also inefficient - should be done in DB)
-    const stats = await withSpan(
-      'calculate-product-stats',
-      'function',
-      async () => {
-        return report.map((product: any) => {
-          const items = product.orderItems || [];
-          const totalSold = items.reduce((sum: number, item: any) => sum + item.quantity, 0);
-          const totalRevenue = items.reduce((sum: number, item: any) => sum + (item.quantity * parseFloat(item.price.toString())), 0);
-          
-          return {
-            id: product.id,
-            name: product.name,
-            category: product.category?.name,
-            stock: product.stock,
-            totalSold,
-            totalRevenue,
-            orderCount: items.length,
-          };
-        });
-      }
-    );
+    const stats = await generateProductReport();
 
     res.json({
       data: stats,
@@ -220,7 +217,7 @@ router.get('/categories', async (_req, res, next) => {
  * GET /api/products/:id
  * Get a single product
  */
-router.get('/:id', async (req, res, next) => {
+router.get('/:id', validate({ params: idParamsSchema }), async (req, res, next) => {
   try {
     const { id } = req.params;
     
@@ -238,4 +235,108 @@ router.get('/:id', async (req, res, next) => {
   }
 });
 
+/**
+ * POST /api/products
+ * Create a product
+ * Body: { name, price, categoryId, description?, stock? }
+ */
+router.post('/', validate({ body: productInputSchema }), async (req, res, next) => {
+  try {
+    const { name, description = null, price, stock = 0, categoryId } = req.body;
+    if (!(await Category.findByPk(categoryId))) {
+      return res.status(400).json({ error: 'Bad Request', message: `Category ${categoryId} does not exist` });
+    }
+
+    addBreadcrumb('api', 'Creating product', { name, categoryId });
+
+    const product = await Product.create({ name, description, price, stock, categoryId });
+    await product.reload({ include: ['category'] });
+
+    res.status(201).json(product);
+  } catch (error) {
+    // Category deleted between the existence check and the write
+    if (error instanceof ForeignKeyConstraintError) {
+      return res.status(400).json({ error: 'Bad Request', message: 'categoryId does not reference an existing category' });
+    }
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/products/:id
+ * Update some fields of a product
+ */
+router.patch('/:id', validate({ params: idParamsSchema, body: productPatchSchema }), async (req, res, next) => {
+  try {
+    const product = await Product.findByPk(req.params.id);
+    if (!product) {
+      return res.status(404).json({ error: 'Not Found', message: 'Product not found' });
+    }
+
+    const { name, description, price, stock, categoryId } = req.body;
+    if (categoryId !== undefined && !(await Category.findByPk(categoryId))) {
+      return res.status(400).json({ error: 'Bad Request', message: `Category ${categoryId} does not exist` });
+    }
+
+    addBreadcrumb('api', 'Updating product', { productId: product.id, fields: Object.keys(req.body) });
+
+    await product.update({
+      ...(name !== undefined && { name }),
+      ...(description !== undefined && { description }),
+      ...(price !== undefined && { price }),
+      ...(stock !== undefined && { stock }),
+      ...(categoryId !== undefined && { categoryId }),
+    });
+    await product.reload({ include: ['category'] });
+
+    res.json(product);
+  } catch (error) {
+    // Category deleted between the existence check and the write
+    if (error instanceof ForeignKeyConstraintError) {
+      return res.status(400).json({ error: 'Bad Request', message: 'categoryId does not reference an existing category' });
+    }
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/products/:id
+ * Delete a product that has never been ordered (409 otherwise)
+ */
+router.delete('/:id', validate({ params: idParamsSchema }), async (req, res, next) => {
+  try {
+    // order_items.productId cascades on delete, so the in-use check must not race
+    // with new order items: inserting one takes a KEY SHARE lock on the product
+    // row, which conflicts with the FOR UPDATE lock held until the delete commits
+    const result = await sequelize.transaction(async (t) => {
+      const product = await Product.findByPk(req.params.id, { transaction: t, lock: t.LOCK.UPDATE });
+      if (!product) {
+        return { status: 404 as const };
+      }
+
+      const orderItemCount = await OrderItem.count({ where: { productId: product.id }, transaction: t });
+      if (orderItemCount > 0) {
+        return { status: 409 as const, orderItemCount };
+      }
+
+      addBreadcrumb('api', 'Deleting product', { productId: product.id });
+      await product.destroy({ transaction: t });
+      return { status: 204 as const };
+    });
+
+    if (result.status === 404) {
+      return res.status(404).json({ error: 'Not Found', message: 'Product not found' });
+    }
+    if (result.status === 409) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: `Product is referenced by ${result.orderItemCount} order items`,
+      });
+    }
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
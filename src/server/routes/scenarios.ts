@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { scenarios, findScenario, toScenarioDTO } from '../scenarios.js';
+import { validate } from '../validation.js';
+import { scenariosQuerySchema, stringIdParamsSchema } from '../../shared/schemas.js';
+
+const router = Router();
+
+/**
+ * GET /api/scenarios
+ * List every slow/optimized endpoint pair in the scenario registry
+ */
+router.get('/', validate({ query: scenariosQuerySchema }), (req, res) => {
+  const { category } = req.query;
+
+  const data = scenarios
+    .filter((scenario) => !category || scenario.category === category)
+    .map(toScenarioDTO);
+
+  res.json({
+    data,
+    total: data.length,
+  });
+});
+
+/**
+ * GET /api/scenarios/:id
+ * Get a single scenario by ID
+ */
+router.get('/:id', validate({ params: stringIdParamsSchema }), (req, res) => {
+  const scenario = findScenario(req.params.id);
+
+  if (!scenario) {
+    return res.status(404).json({ error: 'Not Found', message: 'Scenario not found' });
+  }
+
+  res.json(toScenarioDTO(scenario));
+});
+
+export default router;
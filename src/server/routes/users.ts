@@ -1,7 +1,11 @@
 import { Router } from 'express';
 import { Op } from 'sequelize';
 import { User, Order, OrderItem, Product } from '../models/index.js';
-import { addBreadcrumb, withSpan, setSentryUser } from '../sentry.js';
+import { addBreadcrumb, setSentryUser } from '../sentry.js';
+import { withSpan } from '../telemetry.js';
+import { validate } from '../validation.js';
+import { findPageByKeyset, InvalidCursorError } from '../keyset.js';
+import { idParamsSchema, paginationQuerySchema, keysetQuerySchema, dateRangeQuerySchema } from '../../shared/schemas.js';
 
 const router = Router();
 
@@ -33,10 +37,9 @@ router.get('/', async (_req, res, next) => {
  * GET /api/users/paginated
  * EFFICIENT: Proper pagination
  */
-router.get('/paginated', async (req, res, next) => {
+router.get('/paginated', validate({ query: paginationQuerySchema }), async (req, res, next) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const pageSize = Math.min(parseInt(req.query.pageSize as string) || 20, 100);
+    const { page, pageSize } = req.query;
     const offset = (page - 1) * pageSize;
 
     addBreadcrumb('api', 'Fetching users with pagination', { page, pageSize });
@@ -59,11 +62,42 @@ router.get('/paginated', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/users/keyset
+ * EFFICIENT: Keyset pagination (newest first, like /paginated); pass nextCursor/prevCursor back as ?cursor=
+ */
+router.get('/keyset', validate({ query: keysetQuerySchema }), async (req, res, next) => {
+  try {
+    const { cursor, pageSize, estimate } = req.query;
+
+    addBreadcrumb('api', 'Fetching users with keyset pagination', { pageSize, hasCursor: !!cursor });
+
+    const page = await findPageByKeyset(User, {
+      sortColumn: 'createdAt',
+      sortDirection: 'DESC',
+      pageSize,
+      cursor,
+      estimate,
+    });
+
+    res.json(page);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: `query.cursor: ${error.message}`,
+        fields: [{ location: 'query', path: 'cursor', message: error.message }],
+      });
+    }
+    next(error);
+  }
+});
+
 /**
  * GET /api/users/:id
  * Get a single user by ID
  */
-router.get('/:id', async (req, res, next) => {
+router.get('/:id', validate({ params: idParamsSchema }), async (req, res, next) => {
   try {
     const { id } = req.params;
     
@@ -87,7 +121,7 @@ router.get('/:id', async (req, res, next) => {
  * INTENTIONALLY INEFFICIENT: N+1 query problem
  * Fetches orders then loops to fetch items one by one
  */
-router.get('/:id/orders', async (req, res, next) => {
+router.get('/:id/orders', validate({ params: idParamsSchema }), async (req, res, next) => {
   try {
     const { id } = req.params;
     
@@ -139,7 +173,7 @@ router.get('/:id/orders', async (req, res, next) => {
  * GET /api/users/:id/orders-optimized
  * EFFICIENT: Uses eager loading to avoid N+1
  */
-router.get('/:id/orders-optimized', async (req, res, next) => {
+router.get('/:id/orders-optimized', validate({ params: idParamsSchema }), async (req, res, next) => {
   try {
     const { id } = req.params;
     
@@ -175,7 +209,7 @@ router.get('/:id/orders-optimized', async (req, res, next) => {
  * GET /api/users/search
  * INTENTIONALLY INEFFICIENT: Full table scan on non-indexed column
  */
-router.get('/search/by-date', async (req, res, next) => {
+router.get('/search/by-date', validate({ query: dateRangeQuerySchema }), async (req, res, next) => {
   try {
     const { startDate, endDate } = req.query;
     
@@ -190,8 +224,8 @@ router.get('/search/by-date', async (req, res, next) => {
       where: {
         createdAt: {
           [Op.between]: [
-            new Date(startDate as string || '2020-01-01'),
-            new Date(endDate as string || new Date().toISOString()),
+            startDate ?? new Date('2020-01-01'),
+            endDate ?? new Date(),
           ],
         },
       },
@@ -208,8 +242,9 @@ router.get('/search/by-date', async (req, res, next) => {
 });
 
 /**
- * GET /api/users/export
+ * GET /api/users/export/all
  * INTENTIONALLY INEFFICIENT: Loads all users into memory with all associations
+ * (see GET /api/exports/users for the streaming version)
  */
 router.get('/export/all', async (_req, res, next) => {
   try {
@@ -251,7 +286,7 @@ router.get('/export/all', async (_req, res, next) => {
     res.json({
       data: users,
       total: users.length,
-      warning: 'This endpoint loads all data into memory',
+      warning: 'This endpoint loads all data into memory - use /api/exports/users to stream instead',
     });
   } catch (error) {
     next(error);
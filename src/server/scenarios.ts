@@ -0,0 +1,337 @@
+import type { AntiPatternCategory, QueryShapeDTO, ScenarioDTO, ScenarioEndpointDTO } from '../shared/types.js';
+
+interface ScenarioEndpoint {
+  method: 'GET' | 'POST';
+  // Route template relative to /api, e.g. /users/:id/orders
+  path: string;
+  // Example values used to build a runnable URL
+  params?: Record<string, string | number>;
+  query?: Record<string, string | number>;
+  queryShape: QueryShapeDTO;
+}
+
+export interface Scenario {
+  id: string;
+  title: string;
+  category: AntiPatternCategory;
+  description: string;
+  slow: ScenarioEndpoint;
+  optimized: ScenarioEndpoint | null;
+}
+
+/**
+ * Registry of every slow endpoint and its optimized counterpart.
+ * The demo page, load tools and docs all read from this list.
+ */
+export const scenarios: Scenario[] = [
+  {
+    id: 'users-unpaginated',
+    title: 'Users: Load All vs Paginated',
+    category: 'unbounded-result',
+    description: 'Fetches every user without a LIMIT instead of a single page.',
+    slow: {
+      method: 'GET',
+      path: '/users',
+      queryShape: {
+        statements: 'fixed',
+        scan: 'sequential',
+        description: 'One SELECT returning every row, sorted by unindexed createdAt',
+      },
+    },
+    optimized: {
+      method: 'GET',
+      path: '/users/paginated',
+      query: { page: 1, pageSize: 20 },
+      queryShape: {
+        statements: 'fixed',
+        scan: 'sequential',
+        description: 'COUNT(*) plus one SELECT with LIMIT/OFFSET',
+      },
+    },
+  },
+  {
+    id: 'users-orders-n-plus-one',
+    title: 'Users: Orders N+1 vs Eager Loading',
+    category: 'n-plus-one',
+    description: 'Loads order items and products one query at a time for each order.',
+    slow: {
+      method: 'GET',
+      path: '/users/:id/orders',
+      params: { id: 1 },
+      queryShape: {
+        statements: 'per-row-nested',
+        scan: 'index',
+        description: '1 query for orders + 1 per order for items + 1 per item for products',
+      },
+    },
+    optimized: {
+      method: 'GET',
+      path: '/users/:id/orders-optimized',
+      params: { id: 1 },
+      queryShape: {
+        statements: 'fixed',
+        scan: 'index',
+        description: 'Single SELECT with JOINs for items, products and categories',
+      },
+    },
+  },
+  {
+    id: 'users-search-by-date',
+    title: 'Users: Search by Date',
+    category: 'missing-index',
+    description: 'Filters users by a createdAt range with no index on createdAt.',
+    slow: {
+      method: 'GET',
+      path: '/users/search/by-date',
+      query: { startDate: '2023-01-01', endDate: '2024-12-31' },
+      queryShape: {
+        statements: 'fixed',
+        scan: 'sequential',
+        description: 'One SELECT with a BETWEEN filter on unindexed createdAt',
+      },
+    },
+    optimized: null,
+  },
+  {
+    id: 'users-export',
+    title: 'Users: Export All',
+    category: 'memory-intensive',
+    description: 'Loads every user with nested orders and items into memory vs streaming them in batches.',
+    slow: {
+      method: 'GET',
+      path: '/users/export/all',
+      queryShape: {
+        statements: 'fixed',
+        scan: 'sequential',
+        description: 'One SELECT joining users, orders, items and products with no limit',
+      },
+    },
+    optimized: {
+      method: 'GET',
+      path: '/exports/users',
+      query: { format: 'ndjson' },
+      queryShape: {
+        statements: 'per-row',
+        scan: 'index',
+        description: 'Keyset batches (WHERE id > last ORDER BY id LIMIT n) streamed as NDJSON',
+      },
+    },
+  },
+  {
+    id: 'orders-search',
+    title: 'Orders: Search (No Index)',
+    category: 'missing-index',
+    description: 'Searches orders by status and amount with nested includes.',
+    slow: {
+      method: 'GET',
+      path: '/orders/search',
+      query: { status: 'pending', minAmount: 100 },
+      queryShape: {
+        statements: 'fixed',
+        scan: 'sequential',
+        description: 'One SELECT joining users, items and products filtered on totalAmount',
+      },
+    },
+    optimized: null,
+  },
+  {
+    id: 'orders-deep-include',
+    title: 'Orders: Deep Nesting vs Single Order',
+    category: 'deep-include',
+    description: 'Loads an order with four levels of nested associations.',
+    slow: {
+      method: 'GET',
+      path: '/orders/:id/full',
+      params: { id: 1 },
+      queryShape: {
+        statements: 'per-row',
+        scan: 'index',
+        description: 'Main JOIN plus separate queries for each limited include',
+      },
+    },
+    optimized: {
+      method: 'GET',
+      path: '/orders/:id',
+      params: { id: 1 },
+      queryShape: {
+        statements: 'fixed',
+        scan: 'index',
+        description: 'Single SELECT by primary key joining user and items',
+      },
+    },
+  },
+  {
+    id: 'orders-deep-offset',
+    title: 'Orders: Deep OFFSET vs Keyset',
+    category: 'deep-offset',
+    description: 'Reads page 2000 with OFFSET, which scans and discards every earlier row.',
+    slow: {
+      method: 'GET',
+      path: '/orders',
+      query: { page: 2000, pageSize: 20 },
+      queryShape: {
+        statements: 'fixed',
+        scan: 'sequential',
+        description: 'COUNT(*) plus a SELECT with OFFSET 39980, sorted by unindexed createdAt',
+      },
+    },
+    optimized: {
+      method: 'GET',
+      path: '/orders/keyset',
+      query: { pageSize: 20 },
+      queryShape: {
+        statements: 'fixed',
+        scan: 'index',
+        description: 'SELECT WHERE ("createdAt", id) < cursor LIMIT 21 (index scan once orders_created_at_idx exists), no COUNT(*)',
+      },
+    },
+  },
+  {
+    id: 'orders-daily-report',
+    title: 'Orders: Daily Report',
+    category: 'unindexed-aggregation',
+    description: 'Aggregates orders by day filtering on unindexed createdAt.',
+    slow: {
+      method: 'GET',
+      path: '/orders/report/daily',
+      query: { days: 30 },
+      queryShape: {
+        statements: 'fixed',
+        scan: 'sequential',
+        description: 'One GROUP BY over orders with a range filter on createdAt',
+      },
+    },
+    optimized: null,
+  },
+  {
+    id: 'products-like-search',
+    title: 'Products: LIKE Search',
+    category: 'leading-wildcard',
+    description: 'ILIKE with a leading wildcard on unindexed products.name.',
+    slow: {
+      method: 'GET',
+      path: '/products/search',
+      query: { query: 'test' },
+      queryShape: {
+        statements: 'fixed',
+        scan: 'sequential',
+        description: "One SELECT with name ILIKE '%query%'",
+      },
+    },
+    optimized: null,
+  },
+  {
+    id: 'products-report',
+    title: 'Products: Cartesian vs Optimized Report',
+    category: 'cartesian-join',
+    description: 'Builds the sales report in memory from a huge join instead of in SQL.',
+    slow: {
+      method: 'GET',
+      path: '/products/report',
+      queryShape: {
+        statements: 'fixed',
+        scan: 'sequential',
+        description: 'One SELECT joining every product, order item, order and user',
+      },
+    },
+    optimized: {
+      method: 'GET',
+      path: '/products/report-optimized',
+      queryShape: {
+        statements: 'fixed',
+        scan: 'sequential',
+        description: 'One GROUP BY aggregating order items per product',
+      },
+    },
+  },
+  {
+    id: 'debug-slow',
+    title: 'Debug: Custom Slow (2s)',
+    category: 'synthetic',
+    description: 'Simulated database, HTTP and processing spans with artificial delays.',
+    slow: {
+      method: 'GET',
+      path: '/debug/slow',
+      query: { delay: 2000 },
+      queryShape: {
+        statements: 'none',
+        scan: 'none',
+        description: 'No SQL; delays are simulated with timers',
+      },
+    },
+    optimized: null,
+  },
+  {
+    id: 'debug-memory',
+    title: 'Debug: Memory Intensive (10MB)',
+    category: 'synthetic',
+    description: 'Allocates and sums large arrays to show memory pressure.',
+    slow: {
+      method: 'GET',
+      path: '/debug/memory',
+      query: { size: 10 },
+      queryShape: {
+        statements: 'none',
+        scan: 'none',
+        description: 'No SQL; allocates memory in-process',
+      },
+    },
+    optimized: null,
+  },
+];
+
+/**
+ * Build a runnable URL (relative to /api) from a route template and its example values
+ */
+export function buildScenarioUrl(endpoint: ScenarioEndpoint): string {
+  const path = endpoint.path.replace(/:(\w+)/g, (_match, name: string) =>
+    encodeURIComponent(String(endpoint.params?.[name] ?? ''))
+  );
+  const query = new URLSearchParams(
+    Object.entries(endpoint.query || {}).map(([key, value]) => [key, String(value)])
+  ).toString();
+  return query ? `${path}?${query}` : path;
+}
+
+function toEndpointDTO(endpoint: ScenarioEndpoint): ScenarioEndpointDTO {
+  return {
+    method: endpoint.method,
+    path: endpoint.path,
+    url: buildScenarioUrl(endpoint),
+    queryShape: endpoint.queryShape,
+  };
+}
+
+export function toScenarioDTO(scenario: Scenario): ScenarioDTO {
+  return {
+    id: scenario.id,
+    title: scenario.title,
+    category: scenario.category,
+    description: scenario.description,
+    slow: toEndpointDTO(scenario.slow),
+    optimized: scenario.optimized ? toEndpointDTO(scenario.optimized) : null,
+  };
+}
+
+export function findScenario(id: string): Scenario | undefined {
+  return scenarios.find((scenario) => scenario.id === id);
+}
+
+/**
+ * Find the scenario (and which side of it) served by a route template,
+ * e.g. GET /api/users/:id/orders -> users-orders-n-plus-one / slow
+ */
+export function findScenarioByRoute(
+  method: string,
+  route: string
+): { scenario: Scenario; variant: 'slow' | 'optimized' } | undefined {
+  for (const scenario of scenarios) {
+    if (scenario.slow.method === method && `/api${scenario.slow.path}` === route) {
+      return { scenario, variant: 'slow' };
+    }
+    if (scenario.optimized?.method === method && `/api${scenario.optimized.path}` === route) {
+      return { scenario, variant: 'optimized' };
+    }
+  }
+  return undefined;
+}
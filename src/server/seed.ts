@@ -1,49 +1,96 @@
 import 'dotenv/config';
 import { faker } from '@faker-js/faker';
-import { sequelize, initModels, User, Category, Product, Order, OrderItem } from './models/index.js';
-import { SEED_CONFIGS, SeedSize } from '../shared/types.js';
+import { Op, QueryTypes } from 'sequelize';
+import type { Client } from 'pg';
+import { sequelize, initModels, User, Category, Product, Order, OrderItem, SeedRun } from './models/index.js';
+import { migrate, resetDatabase } from './migrator.js';
+import { createZipfSampler, createDateSampler, sampleDistinct, UNIFORM_DISTRIBUTION } from './distributions.js';
+import { withCopyTransaction, copyRows, reserveIds, type CopyTarget } from './copyLoader.js';
+import { createLogger } from './logger.js';
+import { SEED_CONFIGS, SeedConfig, SeedEntity, SeedEntityProgressDTO, SeedSize } from '../shared/types.js';
+
+// Output is one JSON object per line, including the progress events
+const log = createLogger('seed');
 
 // Get seed size from environment
 const seedSize = (process.env.SEED_SIZE as SeedSize) || 'small';
-const config = SEED_CONFIGS[seedSize];
+// SEED_DISTRIBUTION=uniform turns off popularity skew, whales and seasonality
+const requestedConfig: SeedConfig = process.env.SEED_DISTRIBUTION === 'uniform'
+  ? { ...SEED_CONFIGS[seedSize], distribution: UNIFORM_DISTRIBUTION }
+  : SEED_CONFIGS[seedSize];
 const shouldReset = !['false', '0'].includes((process.env.SEED_RESET || '').toLowerCase());
-const seedRunId = process.env.SEED_RUN_ID || Date.now().toString();
+// Without a reset, an unfinished run (crashed or killed) is continued instead of starting a new one
+const shouldResume = !['false', '0'].includes((process.env.SEED_RESUME || '').toLowerCase());
+// Rows per COPY batch; each batch commits together with its checkpoint
+const batchSize = parseInt(process.env.SEED_BATCH_SIZE || '5000');
+
+// Seeds faker, which makes every random choice below, so the same value gives the same dataset.
+// Stored in seed_runs' INTEGER columns, hence the 32-bit range.
+const seedRandom = process.env.SEED_RANDOM ? Number(process.env.SEED_RANDOM) : null;
+if (seedRandom !== null && (!Number.isInteger(seedRandom) || seedRandom < -(2 ** 31) || seedRandom > 2 ** 31 - 1)) {
+  throw new Error(`SEED_RANDOM must be an integer from -2147483648 to 2147483647, got "${process.env.SEED_RANDOM}"`);
+}
 
-console.log(`[Seed] Starting database seeding with size: ${seedSize}`);
-console.log(`[Seed] Config:`, config);
+// Order dates fall in the two years before this date. Seeded runs default to
+// the start of the current UTC day; pass the recorded refDate to reproduce later.
+const requestedRefDate = process.env.SEED_REF_DATE
+  ? new Date(process.env.SEED_REF_DATE)
+  : seedRandom !== null
+    ? new Date(new Date().setUTCHours(0, 0, 0, 0))
+    : new Date();
+if (Number.isNaN(requestedRefDate.getTime())) {
+  throw new Error(`SEED_REF_DATE must be a date, got "${process.env.SEED_REF_DATE}"`);
+}
+
+const ENTITIES: SeedEntity[] = ['categories', 'products', 'users', 'orders'];
+
+interface EntityPlan {
+  table: string;
+  total: number;
+  // COPY targets for rows [start, start + count) of the entity; faker is already seeded for the batch
+  generate: (start: number, count: number, firstId: number) => CopyTarget[];
+}
 
 async function seed() {
+  let run: SeedRun | null = null;
+
   try {
     // Initialize models
     initModels();
 
-    // Sync database (drop and recreate tables)
-    console.log(`[Seed] Syncing database (reset=${shouldReset})...`);
-    await sequelize.sync({ force: shouldReset });
-    console.log('[Seed] Database synced');
-
-    // Seed Categories
-    console.log(`[Seed] Creating ${config.categories} categories...`);
-    const categories = await seedCategories(config.categories);
-    console.log(`[Seed] Created ${categories.length} categories`);
-
-    // Seed Products
-    console.log(`[Seed] Creating ${config.products} products...`);
-    const products = await seedProducts(config.products, categories);
-    console.log(`[Seed] Created ${products.length} products`);
-
-    // Seed Users
-    console.log(`[Seed] Creating ${config.users} users...`);
-    const users = await seedUsers(config.users);
-    console.log(`[Seed] Created ${users.length} users`);
-
-    // Seed Orders
-    console.log(`[Seed] Creating ${config.orders} orders...`);
-    await seedOrders(config.orders, users, products, config.itemsPerOrder);
-    console.log(`[Seed] Created orders with items`);
-
-    console.log('[Seed] Seeding completed successfully!');
-    
+    // Drop and recreate tables, or just apply pending migrations
+    log.info('Migrating database', { reset: shouldReset });
+    if (shouldReset) {
+      await resetDatabase();
+    } else {
+      await migrate();
+    }
+
+    run = await startOrResumeRun();
+    const config = run.config;
+
+    // Seed each entity in order; finished ones are skipped when resuming
+    const categories = await seedEntity(run, 'categories', {
+      table: 'categories',
+      total: config.categories,
+      generate: categoryRows(run.runId),
+    });
+    const products = await seedEntity(run, 'products', {
+      table: 'products',
+      total: config.products,
+      generate: productRows(run, categories),
+    });
+    const users = await seedEntity(run, 'users', {
+      table: 'users',
+      total: config.users,
+      generate: userRows(run.runId),
+    });
+    await seedEntity(run, 'orders', {
+      table: 'orders',
+      total: config.orders,
+      generate: await orderRows(run, users, products),
+    });
+
     // Print summary
     const summary = {
       users: await User.count(),
@@ -52,163 +99,261 @@ async function seed() {
       orders: await Order.count(),
       orderItems: await OrderItem.count(),
     };
-    console.log('[Seed] Summary:', summary);
+    log.info('Seeding completed', { seedRunId: run.id, summary });
 
+    await run.update({ status: 'completed', counts: summary, finishedAt: new Date() });
   } catch (error) {
-    console.error('[Seed] Error:', error);
+    log.error('Seeding failed (rerun with SEED_RESET=false to resume)', { seedRunId: run?.id, err: error });
+    await run?.update({ status: 'failed', finishedAt: new Date() }).catch(() => undefined);
     throw error;
   } finally {
     await sequelize.close();
   }
 }
 
-async function seedCategories(count: number): Promise<Category[]> {
-  const categories = Array.from({ length: count }, (_value, index) => {
-    const name = faker.commerce.department();
-    return {
-      name: `${name} ${seedRunId}-${index + 1}`,
-      description: faker.commerce.productDescription(),
-    };
-  });
-
-  return Category.bulkCreate(categories);
-}
+/**
+ * Continue the latest unfinished run (with its own size, seed and reference
+ * date) or record a new one (reported by /api/debug/health)
+ */
+async function startOrResumeRun(): Promise<SeedRun> {
+  const unfinished = !shouldReset && shouldResume
+    ? await SeedRun.findOne({ where: { status: { [Op.ne]: 'completed' } }, order: [['id', 'DESC']] })
+    : null;
 
-async function seedProducts(count: number, categories: Category[]): Promise<Product[]> {
-  const batchSize = 1000;
-  const products: Product[] = [];
-  
-  for (let i = 0; i < count; i += batchSize) {
-    const batch = [];
-    const currentBatchSize = Math.min(batchSize, count - i);
-    
-    for (let j = 0; j < currentBatchSize; j++) {
-      batch.push({
-        name: faker.commerce.productName(),
-        description: faker.commerce.productDescription(),
-        price: parseFloat(faker.commerce.price({ min: 1, max: 1000 })),
-        stock: faker.number.int({ min: 0, max: 500 }),
-        categoryId: faker.helpers.arrayElement(categories).id,
+  if (unfinished) {
+    if (unfinished.size !== seedSize || unfinished.seed !== seedRandom) {
+      log.warn('Resuming with the unfinished run\'s settings, not the current environment (SEED_RESUME=false starts a new run)', {
+        size: unfinished.size,
+        seed: unfinished.seed,
       });
     }
-    
-    const created = await Product.bulkCreate(batch);
-    products.push(...created);
-    
-    if ((i + batchSize) % 5000 === 0 || i + batchSize >= count) {
-      console.log(`[Seed] Products: ${Math.min(i + batchSize, count)}/${count}`);
-    }
+    await unfinished.update({ status: 'running', finishedAt: null });
+    log.info(`Resuming seed run ${unfinished.id}`, { seedRunId: unfinished.id, progress: unfinished.progress });
+    return unfinished;
   }
-  
-  return products;
+
+  const run = await SeedRun.create({
+    seed: seedRandom,
+    // Unseeded runs still need a fixed base so a resumed run continues the same data
+    randomSeed: seedRandom ?? faker.number.int({ max: 2 ** 31 - 1 }),
+    size: seedSize,
+    config: requestedConfig,
+    reset: shouldReset,
+    refDate: requestedRefDate,
+  });
+  // Defaults to the seed_runs row id
+  await run.update({ runId: process.env.SEED_RUN_ID || String(run.id) });
+
+  log.info(`Starting seed run ${run.id}`, {
+    seedRunId: run.id,
+    size: seedSize,
+    config: requestedConfig,
+    seed: seedRandom ?? 'none (set SEED_RANDOM for a reproducible dataset)',
+    refDate: requestedRefDate.toISOString(),
+  });
+  return run;
 }
 
-async function seedUsers(count: number): Promise<User[]> {
-  const batchSize = 1000;
-  const users: User[] = [];
-  
-  for (let i = 0; i < count; i += batchSize) {
-    const batch = [];
-    const currentBatchSize = Math.min(batchSize, count - i);
-    
-    for (let j = 0; j < currentBatchSize; j++) {
-      const uniqueEmail = `user-${seedRunId}-${i + j + 1}@example.com`;
-
-      batch.push({
-        email: uniqueEmail,
-        name: faker.person.fullName(),
-      });
-    }
-    
-    const created = await User.bulkCreate(batch);
-    users.push(...created);
-    
-    if ((i + batchSize) % 10000 === 0 || i + batchSize >= count) {
-      console.log(`[Seed] Users: ${Math.min(i + batchSize, count)}/${count}`);
-    }
+/**
+ * Write one entity in checkpointed batches. The first call reserves its id
+ * block; each batch is COPYed and its checkpoint saved in one transaction, so
+ * after a crash the entity resumes at the first uncommitted batch. Faker is
+ * reseeded per batch, so resumed batches match an uninterrupted run.
+ */
+async function seedEntity(run: SeedRun, entity: SeedEntity, plan: EntityPlan): Promise<SeedEntityProgressDTO> {
+  let progress = run.progress[entity];
+
+  if (!progress) {
+    progress = await withCopyTransaction(async (client) => {
+      const checkpoint: SeedEntityProgressDTO = {
+        done: 0,
+        total: plan.total,
+        firstId: plan.total > 0 ? await reserveIds(client, plan.table, plan.total) : 0,
+        batchSize,
+      };
+      await saveCheckpoint(client, run, entity, checkpoint);
+      return checkpoint;
+    });
+  } else if (progress.done >= progress.total) {
+    log.info(`Skipping ${entity}: already seeded`, { entity, total: progress.total });
+    return progress;
+  }
+
+  const startedAt = performance.now();
+  const resumedAt = progress.done;
+  const entityIndex = ENTITIES.indexOf(entity);
+
+  while (progress.done < progress.total) {
+    const count = Math.min(progress.batchSize, progress.total - progress.done);
+    faker.seed([run.randomSeed, entityIndex, progress.done / progress.batchSize]);
+    const targets = plan.generate(progress.done, count, progress.firstId);
+    const next: SeedEntityProgressDTO = { ...progress, done: progress.done + count };
+
+    await withCopyTransaction(async (client) => {
+      for (const target of targets) {
+        await copyRows(client, target);
+      }
+      await saveCheckpoint(client, run, entity, next);
+    });
+    progress = next;
+
+    // Throughput of this process (resumed rows excluded), ETA for the rest of the entity
+    const seconds = (performance.now() - startedAt) / 1000;
+    const rowsPerSec = (progress.done - resumedAt) / seconds;
+    log.info(`${entity} ${progress.done}/${progress.total}`, {
+      event: 'progress',
+      entity,
+      done: progress.done,
+      total: progress.total,
+      percent: Math.round((progress.done / progress.total) * 1000) / 10,
+      rowsPerSec: Math.round(rowsPerSec),
+      etaSeconds: Math.round((progress.total - progress.done) / rowsPerSec),
+    });
   }
-  
-  return users;
+
+  return progress;
+}
+
+async function saveCheckpoint(client: Client, run: SeedRun, entity: SeedEntity, progress: SeedEntityProgressDTO) {
+  await client.query(
+    'UPDATE "seed_runs" SET "progress" = jsonb_set("progress", $1, $2), "updatedAt" = NOW() WHERE "id" = $3',
+    [`{${entity}}`, JSON.stringify(progress), run.id]
+  );
+  run.progress = { ...run.progress, [entity]: progress };
+}
+
+// Index i of an entity maps to id firstId + i
+function idRange({ firstId, total }: SeedEntityProgressDTO): number[] {
+  return Array.from({ length: total }, (_value, index) => firstId + index);
+}
+
+function categoryRows(runId: string): EntityPlan['generate'] {
+  return (start, count, firstId) => {
+    const now = new Date();
+    const rows = Array.from({ length: count }, (_value, offset) => {
+      const index = start + offset;
+      return [
+        firstId + index,
+        `${faker.commerce.department()} ${runId}-${index + 1}`,
+        faker.commerce.productDescription(),
+        now,
+        now,
+      ];
+    });
+    return [{ table: 'categories', columns: ['id', 'name', 'description', 'createdAt', 'updatedAt'], rows }];
+  };
+}
+
+function productRows(run: SeedRun, categories: SeedEntityProgressDTO): EntityPlan['generate'] {
+  // A few big categories and a long tail of small ones
+  faker.seed([run.randomSeed, ENTITIES.indexOf('products'), -1]);
+  const pickCategory = createZipfSampler(idRange(categories), run.config.distribution.categorySkew);
+
+  return (start, count, firstId) => {
+    const now = new Date();
+    const rows = Array.from({ length: count }, (_value, offset) => [
+      firstId + start + offset,
+      faker.commerce.productName(),
+      faker.commerce.productDescription(),
+      parseFloat(faker.commerce.price({ min: 1, max: 1000 })),
+      faker.number.int({ min: 0, max: 500 }),
+      pickCategory(),
+      now,
+      now,
+    ]);
+    return [{
+      table: 'products',
+      columns: ['id', 'name', 'description', 'price', 'stock', 'categoryId', 'createdAt', 'updatedAt'],
+      rows,
+    }];
+  };
+}
+
+function userRows(runId: string): EntityPlan['generate'] {
+  return (start, count, firstId) => {
+    const now = new Date();
+    const rows = Array.from({ length: count }, (_value, offset) => {
+      const index = start + offset;
+      return [firstId + index, `user-${runId}-${index + 1}@example.com`, faker.person.fullName(), now, now];
+    });
+    return [{ table: 'users', columns: ['id', 'email', 'name', 'createdAt', 'updatedAt'], rows }];
+  };
 }
 
-async function seedOrders(
-  count: number,
-  users: User[],
-  products: Product[],
-  itemsPerOrder: { min: number; max: number }
-): Promise<void> {
-  const batchSize = 500;
+async function orderRows(
+  run: SeedRun,
+  users: SeedEntityProgressDTO,
+  products: SeedEntityProgressDTO
+): Promise<EntityPlan['generate']> {
+  const { distribution, itemsPerOrder, orders: count } = run.config;
   const statuses = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'] as const;
-  
-  // Create date range for orders (last 2 years)
-  const endDate = new Date();
-  const startDate = new Date();
+
+  // Order items copy the product price; only ids and prices are kept in memory
+  const prices = new Map(
+    (await sequelize.query<{ id: number; price: string }>(
+      'SELECT id, price FROM products WHERE id >= :first AND id < :end',
+      { type: QueryTypes.SELECT, replacements: { first: products.firstId, end: products.firstId + products.total } }
+    )).map((row) => [row.id, parseFloat(row.price)])
+  );
+
+  // Create date range for orders (2 years up to the reference date)
+  const endDate = run.refDate;
+  const startDate = new Date(run.refDate);
   startDate.setFullYear(startDate.getFullYear() - 2);
-  
-  for (let i = 0; i < count; i += batchSize) {
-    const orderBatch: Array<{
-      userId: number;
-      status: typeof statuses[number];
-      totalAmount: number;
-      createdAt: Date;
-      updatedAt: Date;
-    }> = [];
-    const itemBatch: Array<{
-      orderIndex: number;
-      productId: number;
-      quantity: number;
-      price: number;
-    }> = [];
-    const currentBatchSize = Math.min(batchSize, count - i);
-    
-    for (let j = 0; j < currentBatchSize; j++) {
-      const orderDate = faker.date.between({ from: startDate, to: endDate });
+
+  // Samplers are built from their own seed, identical on every resume
+  faker.seed([run.randomSeed, ENTITIES.indexOf('orders'), -1]);
+  const pickDate = createDateSampler(startDate, endDate, distribution.seasonality);
+  const userIds = idRange(users);
+
+  // Hot users and best-selling products; whale customers own the first orders
+  const pickUser = createZipfSampler(userIds, distribution.userSkew);
+  const pickProduct = createZipfSampler(idRange(products), distribution.productSkew);
+  const whales = faker.helpers.arrayElements(userIds, Math.min(distribution.whales.count, userIds.length));
+  const whaleOrders = Math.min(whales.length * distribution.whales.ordersEach, count);
+  if (whales.length > 0) {
+    log.info(`Whale customers (${distribution.whales.ordersEach} orders each): user ids ${whales.join(', ')}`, { whales });
+  }
+
+  return (start, batchCount, firstId) => {
+    const orderRows: unknown[][] = [];
+    const itemRows: unknown[][] = [];
+
+    for (let offset = 0; offset < batchCount; offset++) {
+      const orderIndex = start + offset;
+      const orderId = firstId + orderIndex;
+      const orderDate = pickDate();
       const numItems = faker.number.int(itemsPerOrder);
-      const selectedProducts = faker.helpers.arrayElements(products, numItems);
       let orderTotal = 0;
 
-      for (const product of selectedProducts) {
+      for (const productId of sampleDistinct(pickProduct, numItems)) {
         const quantity = faker.number.int({ min: 1, max: 5 });
-        const price = parseFloat(product.price.toString());
+        const price = prices.get(productId) ?? 0;
         orderTotal += price * quantity;
-
-        itemBatch.push({
-          orderIndex: j,
-          productId: product.id,
-          quantity,
-          price,
-        });
+        itemRows.push([orderId, productId, quantity, price, orderDate, orderDate]);
       }
 
-      orderBatch.push({
-        userId: faker.helpers.arrayElement(users).id,
-        status: faker.helpers.arrayElement(statuses),
-        totalAmount: orderTotal,
-        createdAt: orderDate,
-        updatedAt: orderDate,
-      });
+      const userId = orderIndex < whaleOrders
+        ? whales[Math.floor(orderIndex / distribution.whales.ordersEach)]
+        : pickUser();
+      orderRows.push([
+        orderId,
+        userId,
+        faker.helpers.arrayElement(statuses),
+        orderTotal.toFixed(2),
+        orderDate,
+        orderDate,
+      ]);
     }
 
-    const orders = await Order.bulkCreate(orderBatch, { returning: true });
-
-    if (itemBatch.length > 0) {
-      const itemsWithIds = itemBatch.map(item => ({
-        orderId: orders[item.orderIndex].id,
-        productId: item.productId,
-        quantity: item.quantity,
-        price: item.price,
-      }));
-      await OrderItem.bulkCreate(itemsWithIds);
-    }
-    
-    if ((i + batchSize) % 5000 === 0 || i + batchSize >= count) {
-      console.log(`[Seed] Orders: ${Math.min(i + batchSize, count)}/${count}`);
-    }
-  }
+    return [
+      { table: 'orders', columns: ['id', 'userId', 'status', 'totalAmount', 'createdAt', 'updatedAt'], rows: orderRows },
+      { table: 'order_items', columns: ['orderId', 'productId', 'quantity', 'price', 'createdAt', 'updatedAt'], rows: itemRows },
+    ];
+  };
 }
 
 // Run seed
-seed().catch(error => {
-  console.error('[Seed] Fatal error:', error);
+seed().catch(() => {
   process.exit(1);
 });
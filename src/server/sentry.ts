@@ -1,11 +1,18 @@
 import * as Sentry from '@sentry/node';
 import { nodeProfilingIntegration } from '@sentry/profiling-node';
 
+// Local ingest stand-in (see sentryIngest.ts) - events never leave the process
+const SENTRY_LOCAL_INGEST = ['true', '1', 'yes'].includes((process.env.SENTRY_LOCAL_INGEST || '').toLowerCase());
+const LOCAL_INGEST_DSN = `http://local@127.0.0.1:${process.env.SENTRY_LOCAL_INGEST_PORT || process.env.PORT || 3001}/1`;
+
 // Get environment variables with fallbacks
-const SENTRY_DSN = process.env.SENTRY_DSN || 'https://placeholder@sentry.example.com/0';
+const SENTRY_DSN = process.env.SENTRY_DSN
+  || (SENTRY_LOCAL_INGEST ? LOCAL_INGEST_DSN : 'https://placeholder@sentry.example.com/0');
 const SENTRY_ENVIRONMENT = process.env.SENTRY_ENVIRONMENT || process.env.NODE_ENV || 'development';
 const SENTRY_RELEASE = process.env.SENTRY_RELEASE || 'nodejs-tester@1.0.0';
 const SENTRY_ENABLED = ['true', '1', 'yes'].includes((process.env.SENTRY_ENABLED || '').toLowerCase());
+// Tracing goes to Sentry only with the default telemetry backend (see telemetry.ts)
+const SENTRY_TRACING = (process.env.TELEMETRY_BACKEND || 'sentry').toLowerCase() === 'sentry';
 
 // Kubernetes context from Downward API
 const POD_NAME = process.env.POD_NAME || 'local';
@@ -26,7 +33,10 @@ export function initSentry() {
     sendDefaultPii: true,
 
     // Performance monitoring - capture 100% of transactions for testing
-    tracesSampleRate: 1.0,
+    tracesSampleRate: SENTRY_TRACING ? 1.0 : undefined,
+
+    // With an OpenTelemetry backend, telemetry.ts owns the tracer provider
+    skipOpenTelemetrySetup: !SENTRY_TRACING,
 
     // Profiling - capture profiles for performance analysis
     profilesSampleRate: 1.0,
@@ -39,6 +49,10 @@ export function initSentry() {
     integrations: [
       // Profiling integration for detailed performance analysis
       nodeProfilingIntegration(),
+      // Envelope POSTs to the local ingest must not create transactions of their own
+      Sentry.httpIntegration({
+        ignoreIncomingRequests: (urlPath) => /^\/api\/\d+\/envelope\/?/.test(urlPath),
+      }),
     ],
 
     // Add Kubernetes context as tags to all events
@@ -123,25 +137,5 @@ export function addBreadcrumb(
   });
 }
 
-// Helper for custom spans
-export async function withSpan<T>(
-  name: string,
-  op: string,
-  fn: () => Promise<T>,
-  data?: Record<string, unknown>
-): Promise<T> {
-  if (!SENTRY_ENABLED) {
-    return fn();
-  }
-  return Sentry.startSpan(
-    {
-      name,
-      op,
-      attributes: data as Record<string, string | number | boolean>,
-    },
-    async () => fn()
-  );
-}
-
 // Re-export Sentry for direct usage
 export { Sentry };
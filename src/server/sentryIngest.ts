@@ -0,0 +1,202 @@
+import { randomUUID } from 'crypto';
+import express from 'express';
+import type { Request, Response } from 'express';
+import { createLogger } from './logger.js';
+import type { CapturedEventDTO, CapturedEventKind } from '../shared/types.js';
+
+const LOCAL_INGEST_ENABLED = ['true', '1', 'yes'].includes((process.env.SENTRY_LOCAL_INGEST || '').toLowerCase());
+// Optional separate port; by default envelopes are accepted on the app itself
+const LOCAL_INGEST_PORT = process.env.SENTRY_LOCAL_INGEST_PORT;
+const CAPTURED_EVENTS_LIMIT = parseInt(process.env.CAPTURED_EVENTS_LIMIT || '1000');
+
+const log = createLogger('sentry-ingest');
+
+// Path the Sentry SDKs post to for a DSN like http://key@host/<projectId>
+export const ENVELOPE_PATH = /^\/api\/(\d+)\/envelope\/?$/;
+
+// Item types whose payload is JSON
+const JSON_ITEM_TYPES = new Set([
+  'event', 'transaction', 'span', 'replay_event', 'feedback', 'user_report',
+  'session', 'sessions', 'client_report', 'check_in', 'log', 'profile',
+]);
+
+interface EnvelopeItem {
+  header: { type: string; length?: number; [key: string]: unknown };
+  payload: Buffer;
+}
+
+interface Envelope {
+  header: { event_id?: string; [key: string]: unknown };
+  items: EnvelopeItem[];
+}
+
+const capturedEvents: CapturedEventDTO[] = [];
+
+export function isLocalIngestEnabled() {
+  return LOCAL_INGEST_ENABLED;
+}
+
+/**
+ * Parse a Sentry envelope: a JSON header line followed by items, each an
+ * item header line and a payload (length-prefixed when `length` is set)
+ */
+export function parseEnvelope(body: Buffer): Envelope {
+  let offset = 0;
+  const readLine = () => {
+    const end = body.indexOf(0x0a, offset);
+    const line = body.subarray(offset, end === -1 ? body.length : end);
+    offset = end === -1 ? body.length : end + 1;
+    return line;
+  };
+
+  const header = JSON.parse(readLine().toString('utf8'));
+  const items: EnvelopeItem[] = [];
+
+  while (offset < body.length) {
+    const headerLine = readLine();
+    if (headerLine.length === 0) {
+      continue;
+    }
+    const itemHeader = JSON.parse(headerLine.toString('utf8'));
+
+    let payload: Buffer;
+    if (typeof itemHeader.length === 'number') {
+      payload = body.subarray(offset, offset + itemHeader.length);
+      offset += itemHeader.length;
+      if (body[offset] === 0x0a) {
+        offset += 1;
+      }
+    } else {
+      payload = readLine();
+    }
+    items.push({ header: itemHeader, payload });
+  }
+
+  return { header, items };
+}
+
+function classifyItem(itemType: string, payload: unknown): CapturedEventKind {
+  switch (itemType) {
+    case 'event':
+      // User feedback sent through captureFeedback is an event with type "feedback"
+      return (payload as { type?: string } | null)?.type === 'feedback' ? 'feedback' : 'error';
+    case 'transaction':
+      return 'transaction';
+    case 'span':
+      return 'span';
+    case 'replay_event':
+    case 'replay_recording':
+    case 'replay_video':
+      return 'replay';
+    case 'feedback':
+    case 'user_report':
+      return 'feedback';
+    default:
+      return 'other';
+  }
+}
+
+function decodePayload(item: EnvelopeItem): unknown {
+  if (!JSON_ITEM_TYPES.has(item.header.type)) {
+    return { size: item.payload.length, contentType: item.header.content_type ?? null };
+  }
+  try {
+    return JSON.parse(item.payload.toString('utf8'));
+  } catch {
+    return { size: item.payload.length, unparsed: true };
+  }
+}
+
+export function storeEnvelope(envelope: Envelope, projectId: string): CapturedEventDTO[] {
+  const stored = envelope.items.map((item) => {
+    const payload = decodePayload(item);
+    const event: CapturedEventDTO = {
+      id: randomUUID(),
+      receivedAt: new Date().toISOString(),
+      kind: classifyItem(item.header.type, payload),
+      itemType: item.header.type,
+      eventId: (payload as { event_id?: string } | null)?.event_id ?? envelope.header.event_id ?? null,
+      projectId,
+      payload,
+    };
+    return event;
+  });
+
+  capturedEvents.push(...stored);
+  if (capturedEvents.length > CAPTURED_EVENTS_LIMIT) {
+    capturedEvents.splice(0, capturedEvents.length - CAPTURED_EVENTS_LIMIT);
+  }
+  return stored;
+}
+
+/**
+ * Captured events, oldest first. Asking for spans also returns the child
+ * spans of every captured transaction, one record per span.
+ */
+export function getCapturedEvents(filter: { kind?: CapturedEventKind; eventId?: string } = {}): CapturedEventDTO[] {
+  let events: CapturedEventDTO[] = capturedEvents;
+
+  if (filter.kind === 'span') {
+    events = events.flatMap((event) => {
+      if (event.kind === 'span') {
+        return [event];
+      }
+      if (event.kind !== 'transaction') {
+        return [];
+      }
+      const spans = (event.payload as { spans?: unknown[] }).spans || [];
+      return spans.map((span) => ({ ...event, kind: 'span' as const, payload: span }));
+    });
+  } else if (filter.kind) {
+    events = events.filter((event) => event.kind === filter.kind);
+  }
+
+  if (filter.eventId) {
+    events = events.filter((event) => event.eventId === filter.eventId);
+  }
+  return events;
+}
+
+export function clearCapturedEvents(): number {
+  return capturedEvents.splice(0, capturedEvents.length).length;
+}
+
+/**
+ * Express handler for envelope POSTs. Mount it before the logging middleware
+ * so the receiver doesn't record breadcrumbs about itself.
+ */
+export const envelopeHandlers = [
+  // Node SDK sends no content type, the browser SDK sends text/plain. Bodies
+  // sent with Content-Encoding (the Node SDK gzips anything over 32 KB) arrive inflated.
+  express.raw({ type: () => true, limit: '20mb' }),
+  (req: Request, res: Response) => {
+    const projectId = req.path.match(ENVELOPE_PATH)?.[1] ?? '0';
+
+    try {
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const envelope = parseEnvelope(body);
+      storeEnvelope(envelope, projectId);
+
+      res.json({ id: envelope.header.event_id ?? null });
+    } catch (error) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Invalid envelope: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+];
+
+/**
+ * Start a standalone receiver when SENTRY_LOCAL_INGEST_PORT is set
+ */
+export function startLocalIngestServer() {
+  if (!LOCAL_INGEST_ENABLED || !LOCAL_INGEST_PORT) {
+    return;
+  }
+  const ingestApp = express();
+  ingestApp.post(ENVELOPE_PATH, ...envelopeHandlers);
+  ingestApp.listen(LOCAL_INGEST_PORT, () => {
+    log.info(`Local ingest listening on http://localhost:${LOCAL_INGEST_PORT}`);
+  });
+}
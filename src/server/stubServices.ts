@@ -0,0 +1,179 @@
+import { randomUUID } from 'crypto';
+import { STATUS_CODES } from 'http';
+import { setTimeout as sleep } from 'timers/promises';
+import express, { Router, type Request, type Response, type NextFunction } from 'express';
+import { telemetryMiddleware } from './telemetry.js';
+import { createLogger } from './logger.js';
+import type { DownstreamService, StubProfileDTO } from '../shared/types.js';
+
+// Stand-ins for a payment gateway, a shipping quote API and a tax service.
+// Checkout calls them over real HTTP, so traces get genuine http.client spans
+// and the stubs' server spans continue the propagated trace.
+
+const STUB_SERVICES_PORT = process.env.STUB_SERVICES_PORT;
+const PORT = process.env.PORT || 3001;
+
+// Where the stubs answer: a separate listener with STUB_SERVICES_PORT, else /stubs on the main server
+export const STUB_BASE_URL = `http://127.0.0.1:${STUB_SERVICES_PORT || PORT}/stubs`;
+
+const log = createLogger('stubs');
+
+const DEFAULT_PROFILES: Record<DownstreamService, StubProfileDTO> = {
+  payment: { latencyMs: 150, jitterMs: 50, errorRate: 0, errorStatus: 503 },
+  shipping: { latencyMs: 80, jitterMs: 30, errorRate: 0, errorStatus: 503 },
+  tax: { latencyMs: 40, jitterMs: 10, errorRate: 0, errorStatus: 500 },
+};
+
+interface StubState {
+  profile: StubProfileDTO;
+  calls: number;
+  errors: number;
+}
+
+const stubs = new Map<DownstreamService, StubState>(
+  (Object.keys(DEFAULT_PROFILES) as DownstreamService[]).map((service) => [
+    service,
+    { profile: { ...DEFAULT_PROFILES[service] }, calls: 0, errors: 0 },
+  ])
+);
+
+// Charges by Idempotency-Key, so a retried charge returns the first result
+const MAX_CHARGES = 1000;
+const charges = new Map<string, Record<string, unknown>>();
+
+export function getStubState(service: DownstreamService) {
+  const { profile, calls, errors } = stubs.get(service)!;
+  return { profile: { ...profile }, calls, errors };
+}
+
+export function updateStubProfile(service: DownstreamService, patch: Partial<StubProfileDTO>): StubProfileDTO {
+  const stub = stubs.get(service)!;
+  stub.profile = { ...stub.profile, ...patch };
+  log.info(`Updated ${service} profile`, { service, ...stub.profile });
+  return { ...stub.profile };
+}
+
+/**
+ * Restore the default profiles and zero the counters
+ */
+export function resetStubs() {
+  for (const [service, stub] of stubs) {
+    stub.profile = { ...DEFAULT_PROFILES[service] };
+    stub.calls = 0;
+    stub.errors = 0;
+  }
+  charges.clear();
+}
+
+/**
+ * Apply the service's profile: wait latency ± jitter, then fail errorRate of
+ * the requests with errorStatus
+ */
+function simulate(service: DownstreamService) {
+  return async (_req: Request, res: Response, next: NextFunction) => {
+    const stub = stubs.get(service)!;
+    const { latencyMs, jitterMs, errorRate, errorStatus } = stub.profile;
+    stub.calls += 1;
+
+    const delayMs = Math.max(0, latencyMs + Math.round((Math.random() * 2 - 1) * jitterMs));
+    if (delayMs > 0) {
+      await sleep(delayMs);
+    }
+
+    if (Math.random() < errorRate) {
+      stub.errors += 1;
+      return res.status(errorStatus).json({
+        error: STATUS_CODES[errorStatus] ?? 'Internal Server Error',
+        message: `Simulated ${service} failure`,
+      });
+    }
+    next();
+  };
+}
+
+function roundCents(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+function createStubRouter(): Router {
+  const router = Router();
+
+  /**
+   * POST /stubs/payment/charges
+   * Body: { orderId, amount, currency }; honours Idempotency-Key
+   */
+  router.post('/payment/charges', simulate('payment'), (req, res) => {
+    const key = req.get('idempotency-key');
+    const existing = key ? charges.get(key) : undefined;
+    if (existing) {
+      return res.status(200).json(existing);
+    }
+
+    const charge = {
+      id: `ch_${randomUUID().replace(/-/g, '').slice(0, 24)}`,
+      status: 'succeeded',
+      amount: roundCents(Number(req.body?.amount) || 0),
+      currency: req.body?.currency || 'usd',
+      orderId: req.body?.orderId ?? null,
+    };
+    if (key) {
+      if (charges.size >= MAX_CHARGES) {
+        charges.delete(charges.keys().next().value!);
+      }
+      charges.set(key, charge);
+    }
+    res.status(201).json(charge);
+  });
+
+  /**
+   * POST /stubs/shipping/quotes
+   * Body: { items: [{ productId, quantity }] }
+   */
+  router.post('/shipping/quotes', simulate('shipping'), (req, res) => {
+    const units = Array.isArray(req.body?.items)
+      ? req.body.items.reduce((sum: number, item: { quantity?: number }) => sum + (Number(item.quantity) || 0), 0)
+      : 0;
+    res.json({
+      carrier: units > 10 ? 'freight' : 'ground',
+      amount: roundCents(4.99 + units * 0.5),
+      estimatedDays: units > 10 ? 7 : 3,
+    });
+  });
+
+  /**
+   * POST /stubs/tax/calculations
+   * Body: { amount }
+   */
+  router.post('/tax/calculations', simulate('tax'), (req, res) => {
+    const rate = 0.0725;
+    res.json({ rate, amount: roundCents((Number(req.body?.amount) || 0) * rate) });
+  });
+
+  return router;
+}
+
+/**
+ * Mount the stubs on the main app unless they get their own listener
+ */
+export function mountStubServices(app: express.Express) {
+  if (!STUB_SERVICES_PORT) {
+    app.use('/stubs', createStubRouter());
+  }
+}
+
+/**
+ * Start a standalone stub server when STUB_SERVICES_PORT is set, so downstream
+ * calls leave the main process's port like they would in production
+ */
+export function startStubServer() {
+  if (!STUB_SERVICES_PORT) {
+    return;
+  }
+  const stubApp = express();
+  stubApp.use(express.json());
+  stubApp.use(telemetryMiddleware);
+  stubApp.use('/stubs', createStubRouter());
+  stubApp.listen(STUB_SERVICES_PORT, () => {
+    log.info(`Stub services listening on http://localhost:${STUB_SERVICES_PORT}/stubs`);
+  });
+}
@@ -0,0 +1,295 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { Sequelize } from 'sequelize';
+import { ROOT_CONTEXT, context, propagation, trace, SpanKind, SpanStatusCode, type AttributeValue, type Attributes } from '@opentelemetry/api';
+import {
+  NodeTracerProvider,
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  ConsoleSpanExporter,
+  type SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import { z } from 'zod';
+import { Sentry, isSentryEnabled } from './sentry.js';
+import { createLogger } from './logger.js';
+
+const telemetryBackendSchema = z.enum(['sentry', 'otlp', 'console']);
+
+export type TelemetryBackend = z.infer<typeof telemetryBackendSchema>;
+
+/**
+ * Where custom spans go:
+ * - sentry:  Sentry.startSpan (no-op when Sentry is disabled)
+ * - otlp:    OpenTelemetry SDK exporting over OTLP/HTTP (OTEL_EXPORTER_OTLP_* env vars)
+ * - console: OpenTelemetry SDK printing finished spans to stdout
+ */
+const parsedBackend = telemetryBackendSchema.safeParse((process.env.TELEMETRY_BACKEND || 'sentry').toLowerCase());
+if (!parsedBackend.success) {
+  throw new Error(`TELEMETRY_BACKEND must be sentry, otlp or console, got "${process.env.TELEMETRY_BACKEND}"`);
+}
+const TELEMETRY_BACKEND = parsedBackend.data;
+const OTEL_SERVICE_NAME = process.env.OTEL_SERVICE_NAME || 'nodejs-tester';
+const SERVICE_VERSION = process.env.SENTRY_RELEASE || 'nodejs-tester@1.0.0';
+
+const tracer = trace.getTracer('nodejs-tester');
+let provider: NodeTracerProvider | null = null;
+
+export function getTelemetryBackend(): TelemetryBackend {
+  return TELEMETRY_BACKEND;
+}
+
+function isOtelBackend() {
+  return TELEMETRY_BACKEND === 'otlp' || TELEMETRY_BACKEND === 'console';
+}
+
+export function initTelemetry() {
+  if (!isOtelBackend()) {
+    return;
+  }
+
+  const spanProcessor: SpanProcessor = TELEMETRY_BACKEND === 'otlp'
+    ? new BatchSpanProcessor(new OTLPTraceExporter())
+    : new SimpleSpanProcessor(new ConsoleSpanExporter());
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: OTEL_SERVICE_NAME,
+      [ATTR_SERVICE_VERSION]: SERVICE_VERSION,
+    }),
+    spanProcessors: [spanProcessor],
+  });
+  // Registers the global tracer provider, AsyncLocalStorage context manager and W3C propagator
+  provider.register();
+
+  // Created here, not at load time: logger.ts imports this module
+  createLogger('telemetry').info(`OpenTelemetry ${TELEMETRY_BACKEND} exporter enabled`, {
+    backend: TELEMETRY_BACKEND,
+    service: OTEL_SERVICE_NAME,
+  });
+}
+
+export async function shutdownTelemetry() {
+  await provider?.shutdown();
+}
+
+function toAttributes(data?: Record<string, unknown>): Attributes {
+  const attributes: Attributes = {};
+  for (const [key, value] of Object.entries(data || {})) {
+    if (value !== undefined && value !== null) {
+      attributes[key] = (typeof value === 'object' ? JSON.stringify(value) : value) as AttributeValue;
+    }
+  }
+  return attributes;
+}
+
+async function withOtelSpan<T>(
+  name: string,
+  op: string,
+  fn: () => Promise<T>,
+  data?: Record<string, unknown>,
+  kind: SpanKind = SpanKind.INTERNAL
+): Promise<T> {
+  return tracer.startActiveSpan(name, { kind, attributes: { 'span.op': op, ...toAttributes(data) } }, async (span) => {
+    try {
+      return await fn();
+    } catch (error) {
+      span.recordException(error as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * IDs of the span active in the current async context, for log correlation.
+ * Sentry without tracing still has a trace ID on its propagation context.
+ */
+export function getTraceContext(): { traceId: string; spanId?: string } | undefined {
+  if (isOtelBackend()) {
+    const spanContext = trace.getActiveSpan()?.spanContext();
+    return spanContext ? { traceId: spanContext.traceId, spanId: spanContext.spanId } : undefined;
+  }
+  if (!isSentryEnabled()) {
+    return undefined;
+  }
+  const span = Sentry.getActiveSpan();
+  if (span) {
+    const { traceId, spanId } = span.spanContext();
+    return { traceId, spanId };
+  }
+  return { traceId: Sentry.getCurrentScope().getPropagationContext().traceId };
+}
+
+/**
+ * Propagation headers for the active trace (W3C traceparent for the
+ * OpenTelemetry backends, sentry-trace and baggage for Sentry), so work
+ * handed to another process or a later point in time can continue it
+ */
+export function getPropagationHeaders(): Record<string, string> {
+  if (isOtelBackend()) {
+    const carrier: Record<string, string> = {};
+    propagation.inject(context.active(), carrier);
+    return carrier;
+  }
+  if (!isSentryEnabled()) {
+    return {};
+  }
+  return { ...Sentry.getTraceData() } as Record<string, string>;
+}
+
+/**
+ * Run fn in a new root span (a Sentry transaction) that continues the trace
+ * described by headers from getPropagationHeaders()
+ */
+export async function withContinuedSpan<T>(
+  headers: Record<string, string>,
+  name: string,
+  op: string,
+  fn: () => Promise<T>,
+  data?: Record<string, unknown>
+): Promise<T> {
+  if (isOtelBackend()) {
+    const parentContext = propagation.extract(ROOT_CONTEXT, headers);
+    return context.with(parentContext, () => withOtelSpan(name, op, fn, data, SpanKind.CONSUMER));
+  }
+  if (!isSentryEnabled()) {
+    return fn();
+  }
+  return Sentry.continueTrace({ sentryTrace: headers['sentry-trace'], baggage: headers.baggage }, () =>
+    Sentry.startSpan(
+      {
+        name,
+        op,
+        forceTransaction: true,
+        attributes: data as Record<string, string | number | boolean>,
+      },
+      async () => fn()
+    )
+  );
+}
+
+// Helper for custom spans, routed to the configured backend
+export async function withSpan<T>(
+  name: string,
+  op: string,
+  fn: () => Promise<T>,
+  data?: Record<string, unknown>
+): Promise<T> {
+  if (isOtelBackend()) {
+    return withOtelSpan(name, op, fn, data);
+  }
+  if (!isSentryEnabled()) {
+    return fn();
+  }
+  return Sentry.startSpan(
+    {
+      name,
+      op,
+      attributes: data as Record<string, string | number | boolean>,
+    },
+    async () => fn()
+  );
+}
+
+/**
+ * Outgoing HTTP request. Sentry's fetch instrumentation records the
+ * http.client span and adds sentry-trace/baggage itself; the OpenTelemetry
+ * backends get a client span here, and fn receives the traceparent headers
+ * to send so the downstream server span becomes its child.
+ */
+export async function withHttpClientSpan(
+  method: string,
+  url: string,
+  fn: (headers: Record<string, string>) => Promise<globalThis.Response>
+): Promise<globalThis.Response> {
+  if (!isOtelBackend()) {
+    return fn({});
+  }
+  return withOtelSpan(
+    `${method} ${url}`,
+    'http.client',
+    async () => {
+      const response = await fn(getPropagationHeaders());
+      const span = trace.getActiveSpan();
+      span?.setAttribute('http.response.status_code', response.status);
+      if (response.status >= 500) {
+        span?.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      return response;
+    },
+    { 'http.request.method': method, 'url.full': url },
+    SpanKind.CLIENT
+  );
+}
+
+/**
+ * Express middleware creating a server span per request for the OpenTelemetry
+ * backends (Sentry instruments incoming requests itself). Continues incoming
+ * W3C traceparent headers.
+ */
+export function telemetryMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (!isOtelBackend()) {
+    return next();
+  }
+
+  const parentContext = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(
+    `${req.method} ${req.path}`,
+    {
+      kind: SpanKind.SERVER,
+      attributes: { 'span.op': 'http.server', 'http.request.method': req.method, 'url.path': req.path },
+    },
+    parentContext
+  );
+
+  res.on('finish', () => {
+    // Name the span after the matched route template once routing is done
+    if (req.route?.path) {
+      const route = `${req.baseUrl}${req.route.path}`;
+      span.updateName(`${req.method} ${route}`);
+      span.setAttribute('http.route', route);
+    }
+    span.setAttribute('http.response.status_code', res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+
+  context.with(trace.setSpan(parentContext, span), next);
+}
+
+/**
+ * Wrap sequelize.query so every statement becomes a db span for the
+ * OpenTelemetry backends (Sentry's own pg integration covers the Sentry backend)
+ */
+export function instrumentSequelize(sequelize: Sequelize) {
+  if (!isOtelBackend()) {
+    return;
+  }
+
+  const originalQuery = sequelize.query.bind(sequelize) as (...args: unknown[]) => Promise<unknown>;
+  (sequelize as unknown as { query: (...args: unknown[]) => Promise<unknown> }).query = (...args: unknown[]) => {
+    const [sql] = args;
+    const statement = typeof sql === 'string' ? sql : (sql as { query?: string } | null)?.query ?? '';
+    const operation = statement.trim().split(/\s+/)[0]?.toUpperCase() || 'QUERY';
+    const table = statement.match(/\b(?:FROM|INTO|UPDATE)\s+"?(\w+)"?/i)?.[1];
+
+    return withOtelSpan(
+      table ? `${operation} ${table}` : operation,
+      'db.query',
+      () => originalQuery(...args),
+      {
+        'db.system': 'postgresql',
+        'db.operation': operation,
+        'db.sql.table': table,
+        'db.statement': statement,
+      },
+      SpanKind.CLIENT
+    );
+  };
+}
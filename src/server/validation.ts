@@ -0,0 +1,64 @@
+import type { Request, RequestHandler } from 'express';
+import type { z } from 'zod';
+import type { ApiError, FieldErrorDTO } from '../shared/types.js';
+
+type Location = FieldErrorDTO['location'];
+
+interface RequestSchemas<P, Q, B> {
+  params?: z.ZodType<P>;
+  query?: z.ZodType<Q>;
+  body?: z.ZodType<B>;
+}
+
+/**
+ * Express middleware validating params, query and body against schemas from
+ * shared/schemas.ts. Invalid requests get a 400 listing every failed field;
+ * valid ones continue with the parsed (coerced, defaulted) values in place of
+ * the raw ones, typed for the handlers that follow.
+ */
+export function validate<P = Request['params'], Q = Request['query'], B = unknown>(
+  schemas: RequestSchemas<P, Q, B>
+): RequestHandler<P, unknown, B, Q> {
+  return (req, res, next) => {
+    const fields: FieldErrorDTO[] = [];
+    const parsed: Partial<Record<Location, unknown>> = {};
+
+    for (const location of ['params', 'query', 'body'] as const) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+      // express.json() leaves the body undefined when nothing was sent
+      const result = schema.safeParse(req[location] ?? (location === 'body' ? {} : undefined));
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        for (const issue of result.error.issues) {
+          fields.push({ location, path: issue.path.join('.'), message: issue.message });
+        }
+      }
+    }
+
+    if (fields.length > 0) {
+      const body: ApiError = {
+        error: 'Bad Request',
+        message: fields.map((field) => `${[field.location, field.path].filter(Boolean).join('.')}: ${field.message}`).join('; '),
+        fields,
+      };
+      res.status(400).json(body);
+      return;
+    }
+
+    if ('params' in parsed) {
+      req.params = parsed.params as P;
+    }
+    if ('body' in parsed) {
+      req.body = parsed.body as B;
+    }
+    if ('query' in parsed) {
+      // req.query is a getter in Express 5; shadow it on the request itself
+      Object.defineProperty(req, 'query', { value: parsed.query, writable: true, configurable: true, enumerable: true });
+    }
+    next();
+  };
+}
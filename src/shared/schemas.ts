@@ -0,0 +1,418 @@
+// Request schemas (params, query, body) shared by the server's validation
+// middleware and the client. Query values arrive as strings, so numbers and
+// dates are coerced. Objects are not strict: unknown keys such as ?explain=
+// pass through validation and are dropped from the parsed value.
+import { z } from 'zod';
+import type {
+  AntiPatternCategory,
+  CapturedEventKind,
+  DbStatsOrder,
+  DownstreamService,
+  ExportFormat,
+  ExportResource,
+  JobStatus,
+  JobType,
+  OrderDTO,
+} from './types.js';
+
+// Friendlier messages for unparseable query strings; range errors keep zod's defaults
+const number = () =>
+  z.coerce.number({ error: (issue) => (issue.code === 'invalid_type' ? 'must be a number' : undefined) });
+const positiveInt = number().int().positive();
+const date = z.coerce.date({
+  error: (issue) => (issue.code === 'invalid_type' ? 'must be a valid date, e.g. 2024-01-31' : undefined),
+});
+
+export const orderStatusSchema = z.enum([
+  'pending',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+] as const satisfies ReadonlyArray<OrderDTO['status']>);
+
+// Params
+
+export const idParamsSchema = z.object({
+  id: positiveInt,
+});
+
+export const nameParamsSchema = z.object({
+  name: z.string().min(1),
+});
+
+const exportResourceSchema = z.enum(['users', 'orders', 'order-items'] as const satisfies readonly ExportResource[]);
+const exportFormatSchema = z.enum(['csv', 'ndjson'] as const satisfies readonly ExportFormat[]);
+
+export const exportParamsSchema = z.object({
+  resource: exportResourceSchema,
+});
+
+export const downstreamParamsSchema = z.object({
+  service: z.enum(['payment', 'shipping', 'tax'] as const satisfies readonly DownstreamService[]),
+});
+
+export const stringIdParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+// Query
+
+export const paginationQuerySchema = z.object({
+  page: positiveInt.default(1),
+  pageSize: positiveInt.max(100).default(20),
+});
+
+export const keysetQuerySchema = z.object({
+  cursor: z.string().optional(),
+  pageSize: positiveInt.max(100).default(20),
+  // Include the pg_class.reltuples row estimate (an extra catalog lookup)
+  estimate: z.stringbool().default(false),
+});
+
+export const exportQuerySchema = z.object({
+  format: exportFormatSchema.default('ndjson'),
+  // Compress the download (served as a .gz file)
+  gzip: z.stringbool().default(false),
+});
+
+export const dateRangeQuerySchema = z
+  .object({
+    startDate: date.optional(),
+    endDate: date.optional(),
+  })
+  .refine(({ startDate, endDate }) => !startDate || !endDate || startDate <= endDate, {
+    message: 'endDate must not be before startDate',
+    path: ['endDate'],
+  });
+
+export const orderSearchQuerySchema = z
+  .object({
+    startDate: date.optional(),
+    endDate: date.optional(),
+    status: orderStatusSchema.optional(),
+    minAmount: number().nonnegative().optional(),
+  })
+  .refine(({ startDate, endDate }) => !startDate || !endDate || startDate <= endDate, {
+    message: 'endDate must not be before startDate',
+    path: ['endDate'],
+  });
+
+export const dailyReportQuerySchema = z.object({
+  days: positiveInt.max(3650).default(30),
+});
+
+export const racyOrderQuerySchema = z.object({
+  delayMs: number().int().min(0).max(5000).default(50),
+});
+
+export const productSearchQuerySchema = z.object({
+  query: z.string().optional(),
+  category: positiveInt.optional(),
+});
+
+export const slowQuerySchema = z.object({
+  delay: number().int().min(0).max(60000).default(2000),
+});
+
+export const memoryQuerySchema = z.object({
+  size: positiveInt.max(512).default(10),
+});
+
+export const capturedEventsQuerySchema = z.object({
+  kind: z
+    .enum([
+      'error',
+      'transaction',
+      'span',
+      'replay',
+      'feedback',
+      'other',
+    ] as const satisfies readonly CapturedEventKind[])
+    .optional(),
+  eventId: z.string().optional(),
+});
+
+export const dbStatsQuerySchema = z.object({
+  orderBy: z.enum(['total', 'mean', 'calls', 'rows'] as const satisfies readonly DbStatsOrder[]).default('total'),
+  limit: positiveInt.max(100).default(20),
+});
+
+export const scenariosQuerySchema = z.object({
+  category: z
+    .enum([
+      'n-plus-one',
+      'unbounded-result',
+      'missing-index',
+      'leading-wildcard',
+      'cartesian-join',
+      'deep-include',
+      'unindexed-aggregation',
+      'memory-intensive',
+      'deep-offset',
+      'synthetic',
+    ] as const satisfies readonly AntiPatternCategory[])
+    .optional(),
+});
+
+export const loadRunsQuerySchema = z.object({
+  scenarioId: z.string().optional(),
+});
+
+const jobTypeSchema = z.enum(['orders-daily-report', 'products-report', 'export'] as const satisfies readonly JobType[]);
+
+export const jobsQuerySchema = z.object({
+  type: jobTypeSchema.optional(),
+  status: z.enum(['queued', 'running', 'succeeded', 'failed'] as const satisfies readonly JobStatus[]).optional(),
+  limit: positiveInt.max(100).default(20),
+});
+
+// Bodies
+
+const nameSchema = z.string().trim().min(1).max(255);
+
+export const categoryInputSchema = z.object({
+  name: nameSchema,
+  description: z.string().nullable().optional(),
+});
+
+export const categoryPatchSchema = categoryInputSchema.partial();
+
+export const productInputSchema = z.object({
+  name: nameSchema,
+  description: z.string().nullable().optional(),
+  price: z.number().positive().lt(100_000_000),
+  stock: z.number().int().nonnegative().optional(),
+  categoryId: z.number().int().positive(),
+});
+
+export const productPatchSchema = productInputSchema.partial();
+
+export const createOrderSchema = z.object({
+  userId: z.number().int().positive(),
+  items: z
+    .array(
+      z.object({
+        productId: z.number().int().positive(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1),
+});
+
+export const orderTransitionSchema = z.object({
+  status: orderStatusSchema,
+  actor: nameSchema.default('api'),
+  note: z.string().nullable().default(null),
+});
+
+/**
+ * Whether a load run path reaches /load-runs once the runner's fetch resolves
+ * it under /api (dot segments, %2e, backslashes) and routing ignores percent
+ * encoding, case and repeated slashes. Malformed encodings count as a match.
+ */
+function targetsLoadRuns(path: string): boolean {
+  let pathname = new URL(`/api${path}`, 'http://localhost').pathname;
+  try {
+    pathname = new URL(decodeURIComponent(pathname), 'http://localhost').pathname;
+  } catch {
+    return true;
+  }
+  return pathname.replace(/\/{2,}/g, '/').toLowerCase().startsWith('/api/load-runs');
+}
+
+export const loadRunRequestSchema = z
+  .object({
+    scenarioId: z.string().optional(),
+    variant: z.enum(['slow', 'optimized']).default('slow'),
+    // Target path relative to /api, e.g. /users/1/orders (when no scenarioId)
+    path: z
+      .string()
+      .startsWith('/')
+      .refine((path) => !targetsLoadRuns(path), 'load runs cannot target /load-runs')
+      .optional(),
+    method: z.enum(['GET', 'POST']).default('GET'),
+    concurrency: z.number().int().min(1).max(50).default(5),
+    durationSeconds: z.number().positive().max(300).default(10),
+    ratePerSecond: z.number().positive().max(1000).nullable().default(null),
+    timeoutMs: z.number().positive().default(30000),
+    // JSON request body sent with every POST
+    body: z.union([z.record(z.string(), z.unknown()), z.array(z.unknown())]).nullable().default(null),
+  })
+  .refine(({ scenarioId, path }) => scenarioId || path, {
+    message: 'scenarioId or a path relative to /api (e.g. /users/1/orders) is required',
+    path: ['path'],
+  })
+  .refine(({ scenarioId, method, body }) => scenarioId || body === null || method === 'POST', {
+    message: 'body is only sent with POST',
+    path: ['body'],
+  });
+
+// Attempts before a failing job is marked failed (retries back off exponentially)
+const maxAttempts = z.number().int().min(1).max(10).default(3);
+
+export const jobRequestSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('orders-daily-report'),
+    payload: z.object({ days: z.number().int().positive().max(3650).default(30) }).prefault({}),
+    maxAttempts,
+  }),
+  z.object({
+    type: z.literal('products-report'),
+    payload: z.object({}).prefault({}),
+    maxAttempts,
+  }),
+  z.object({
+    type: z.literal('export'),
+    payload: z.object({
+      resource: exportResourceSchema,
+      format: exportFormatSchema.default('ndjson'),
+      gzip: z.boolean().default(false),
+    }),
+    maxAttempts,
+  }),
+]);
+
+// Fixture names prefix every row they create (emails, category names), keeping fixtures apart
+const fixtureNameSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-z0-9][a-z0-9-]*$/i, 'use letters, digits and dashes')
+  .max(64)
+  .optional();
+
+export const fixtureRequestSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('user-with-orders'),
+    name: fixtureNameSchema,
+    params: z
+      .object({
+        orders: z.number().int().min(0).max(50000).default(200),
+        // Products in the fixture's category; each order contains itemsPerOrder of them
+        products: z.number().int().min(1).max(100).default(5),
+        itemsPerOrder: z.number().int().min(1).max(100).default(3),
+      })
+      .refine(({ products, itemsPerOrder }) => itemsPerOrder <= products, {
+        message: 'itemsPerOrder cannot exceed products',
+        path: ['itemsPerOrder'],
+      })
+      .prefault({}),
+  }),
+  z.object({
+    type: z.literal('product-with-order-items'),
+    name: fixtureNameSchema,
+    params: z
+      .object({
+        // One order per item, spread round-robin over the fixture's users
+        orderItems: z.number().int().min(1).max(100000).default(10000),
+        users: z.number().int().min(1).max(1000).default(10),
+      })
+      .prefault({}),
+  }),
+  z.object({
+    type: z.literal('empty-category'),
+    name: fixtureNameSchema,
+    params: z.object({}).prefault({}),
+  }),
+]);
+
+const faultRuleFields = {
+  route: z
+    .string()
+    .startsWith('/')
+    .refine(
+      (route) => route.split('/').every((segment, index, segments) => segment !== '*' || index === segments.length - 1),
+      'only the last segment can be *'
+    ),
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).nullable().default(null),
+  probability: z.number().min(0).max(1).default(1),
+  maxInjections: z.number().int().positive().nullable().default(null),
+};
+
+export const faultRuleRequestSchema = z.discriminatedUnion('fault', [
+  z.object({
+    ...faultRuleFields,
+    fault: z.literal('latency'),
+    options: z.object({ delayMs: z.number().int().min(1).max(60000).default(1000) }).prefault({}),
+  }),
+  z.object({
+    ...faultRuleFields,
+    fault: z.literal('http-error'),
+    options: z.object({ status: z.number().int().min(500).max(599).default(503) }).prefault({}),
+  }),
+  z.object({
+    ...faultRuleFields,
+    fault: z.literal('connection-reset'),
+    options: z.object({}).prefault({}),
+  }),
+  z.object({
+    ...faultRuleFields,
+    fault: z.literal('exception'),
+    options: z.object({ message: z.string().min(1).default('Injected fault') }).prefault({}),
+  }),
+  z.object({
+    ...faultRuleFields,
+    fault: z.literal('db-timeout'),
+    // statement_timeout for the injected query
+    options: z.object({ timeoutMs: z.number().int().min(1).max(30000).default(100) }).prefault({}),
+  }),
+]);
+
+export const lockChaosSchema = z.object({
+  // row: SELECT ... FOR UPDATE on one row; table: LOCK TABLE ... IN ACCESS EXCLUSIVE MODE
+  mode: z.enum(['row', 'table']).default('row'),
+  table: z.enum(['orders', 'products', 'users']).default('orders'),
+  // Row to lock (defaults to the lowest id)
+  id: z.number().int().positive().optional(),
+  holdMs: z.number().int().min(1).max(120000).default(10000),
+  // Transactions that queue behind the lock and give up after lockTimeoutMs
+  contenders: z.number().int().min(0).max(8).default(3),
+  lockTimeoutMs: z.number().int().min(1).max(60000).default(1000),
+});
+
+export const poolChaosSchema = z.object({
+  // Long transactions to open; the pool holds 10 connections
+  connections: z.number().int().min(1).max(50).default(10),
+  holdMs: z.number().int().min(1).max(120000).default(5000),
+});
+
+export const deadlockChaosSchema = z.object({
+  // Two existing orders (defaults to the two lowest ids)
+  orderIds: z
+    .tuple([z.number().int().positive(), z.number().int().positive()])
+    .refine(([first, second]) => first !== second, 'orders must differ')
+    .optional(),
+});
+
+export const statementTimeoutChaosSchema = z.object({
+  timeoutMs: z.number().int().min(1).max(30000).default(100),
+});
+
+export const stubProfilePatchSchema = z
+  .object({
+    latencyMs: z.number().int().min(0).max(60000),
+    jitterMs: z.number().int().min(0).max(60000),
+    errorRate: z.number().min(0).max(1),
+    errorStatus: z.number().int().min(500).max(599),
+  })
+  .partial();
+
+export const debugErrorSchema = z.object({
+  message: z.string().default('Test error from debug endpoint'),
+  type: z.enum(['Error', 'TypeError', 'RangeError', 'ReferenceError', 'SyntaxError']).default('Error'),
+});
+
+export const debugMessageSchema = z.object({
+  message: z.string().default('Test message'),
+  level: z.enum(['fatal', 'error', 'warning', 'log', 'info', 'debug']).default('info'),
+});
+
+export const debugBreadcrumbsSchema = z.object({
+  count: z.number().int().min(1).max(100).default(5),
+});
+
+export const debugUserContextSchema = z.object({
+  id: z.number().int().default(123),
+  email: z.email().default('test@example.com'),
+  name: z.string().default('Test User'),
+});
@@ -1,4 +1,16 @@
 // Shared types between frontend and backend
+import type { z } from 'zod';
+import type {
+  categoryInputSchema,
+  createOrderSchema,
+  faultRuleRequestSchema,
+  fixtureRequestSchema,
+  jobRequestSchema,
+  loadRunRequestSchema,
+  orderTransitionSchema,
+  productInputSchema,
+  stubProfilePatchSchema,
+} from './schemas.js';
 
 export interface UserDTO {
   id: number;
@@ -46,10 +58,32 @@ export interface OrderDTO {
   totalAmount: number;
   user?: UserDTO;
   items?: OrderItemDTO[];
+  // Downstream results, only on the POST /api/orders response
+  checkout?: CheckoutDTO;
   createdAt: string;
   updatedAt: string;
 }
 
+// Legal order status moves (POST /api/orders/:id/transitions)
+export const ORDER_TRANSITIONS: Record<OrderDTO['status'], Array<OrderDTO['status']>> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export interface OrderStatusHistoryDTO {
+  id: number;
+  orderId: number;
+  // null for the entry recorded when the order was created
+  fromStatus: OrderDTO['status'] | null;
+  toStatus: OrderDTO['status'];
+  actor: string;
+  note: string | null;
+  createdAt: string;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   total: number;
@@ -58,28 +92,261 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+// Request bodies, derived from the validation schemas in schemas.ts.
+// PATCH endpoints accept any subset of the POST body.
+export type CategoryInput = z.input<typeof categoryInputSchema>;
+export type ProductInput = z.input<typeof productInputSchema>;
+export type CreateOrderInput = z.input<typeof createOrderSchema>;
+export type OrderTransitionInput = z.input<typeof orderTransitionSchema>;
+export type LoadRunRequest = z.input<typeof loadRunRequestSchema>;
+
+// One failed check from request validation
+export interface FieldErrorDTO {
+  location: 'params' | 'query' | 'body';
+  // Dotted path inside the location, e.g. items.0.quantity
+  path: string;
+  message: string;
+}
+
+// Keyset pagination: opaque cursors instead of page numbers, no COUNT(*)
+export interface KeysetPageDTO<T> {
+  data: T[];
+  pageSize: number;
+  // Pass as ?cursor= to read the page after/before this one; null at either end
+  nextCursor: string | null;
+  prevCursor: string | null;
+  // pg_class.reltuples estimate (null unless requested or never analyzed)
+  estimatedTotal: number | null;
+}
+
+// Streaming exports (GET /api/exports/:resource)
+export type ExportResource = 'users' | 'orders' | 'order-items';
+export type ExportFormat = 'csv' | 'ndjson';
+
+// Background jobs (POST /api/jobs), run by the Postgres-backed worker
+export type JobType = 'orders-daily-report' | 'products-report' | 'export';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type JobRequest = z.input<typeof jobRequestSchema>;
+
+export interface JobDTO {
+  id: number;
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  // 0-100, reported by the worker while the job runs
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  // Handler output once succeeded (export jobs: file name, row count and download URL)
+  result: unknown;
+  // Last failure message (also kept while a retry is queued)
+  error: string | null;
+  // Earliest time the job may be claimed (pushed back between retries)
+  runAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  // X-Request-Id of the request that submitted the job
+  requestId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface ApiError {
   error: string;
   message: string;
   sentryEventId?: string;
+  // Present on 400s from request validation
+  fields?: FieldErrorDTO[];
+}
+
+// Scenario catalog (slow vs optimized endpoint pairs)
+export type AntiPatternCategory =
+  | 'n-plus-one'
+  | 'unbounded-result'
+  | 'missing-index'
+  | 'leading-wildcard'
+  | 'cartesian-join'
+  | 'deep-include'
+  | 'unindexed-aggregation'
+  | 'memory-intensive'
+  | 'deep-offset'
+  | 'synthetic';
+
+export interface QueryShapeDTO {
+  // How the number of SQL statements grows with the data
+  statements: 'none' | 'fixed' | 'per-row' | 'per-row-nested';
+  // Access path Postgres is expected to choose for the main table
+  scan: 'none' | 'index' | 'sequential';
+  description: string;
+}
+
+export interface ScenarioEndpointDTO {
+  method: 'GET' | 'POST';
+  path: string;
+  url: string;
+  queryShape: QueryShapeDTO;
+}
+
+export interface ScenarioDTO {
+  id: string;
+  title: string;
+  category: AntiPatternCategory;
+  description: string;
+  slow: ScenarioEndpointDTO;
+  optimized: ScenarioEndpointDTO | null;
+}
+
+// EXPLAIN ANALYZE capture (?explain=true or X-Explain: true)
+export interface SeqScanDTO {
+  relation: string;
+  filter: string | null;
+  actualRows: number;
+  rowsRemovedByFilter: number;
+}
+
+export interface ExplainPlanDTO {
+  statement: string;
+  planningTime: number | null;
+  executionTime: number | null;
+  plan: unknown;
+  seqScans: SeqScanDTO[];
+  hints: string[];
+  error?: string;
+}
+
+export interface ExplainReportDTO {
+  plans: ExplainPlanDTO[];
+  skipped: number;
+}
+
+// "Teaching" indexes the models intentionally omit, toggled at runtime
+export interface TeachingIndexDTO {
+  name: string;
+  table: string;
+  column: string;
+  method: 'btree' | 'gin';
+  description: string;
+  exists: boolean;
+  valid: boolean;
+  sizeBytes: number | null;
+  size: string | null;
+  lastBuildMs: number | null;
+}
+
+// pg_stat_statements summary
+export type DbStatsOrder = 'total' | 'mean' | 'calls' | 'rows';
+
+export interface DbStatementDTO {
+  queryId: string;
+  query: string;
+  calls: number;
+  totalTime: number;
+  meanTime: number;
+  rows: number;
+  sharedBlocksHit: number;
+  sharedBlocksRead: number;
+}
+
+// Server-side load runs against scenario endpoints
+export interface LoadRunConfigDTO {
+  scenarioId: string | null;
+  method: 'GET' | 'POST';
+  // Target path relative to /api, e.g. /users/1/orders
+  path: string;
+  concurrency: number;
+  durationSeconds: number;
+  // Open-model arrival rate; null drives a closed loop at full concurrency
+  ratePerSecond: number | null;
+  timeoutMs: number;
+  // JSON request body sent with every POST (e.g. an order for /orders/racy)
+  body: unknown;
+}
+
+export interface LatencySummaryDTO {
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface LoadRunDTO {
+  id: string;
+  status: 'running' | 'completed' | 'cancelled';
+  config: LoadRunConfigDTO;
+  startedAt: string;
+  finishedAt: string | null;
+  requests: number;
+  errors: number;
+  // Arrivals skipped because all concurrency slots were busy (open model only)
+  dropped: number;
+  statusCodes: Record<string, number>;
+  throughput: number;
+  latency: LatencySummaryDTO | null;
+  // Upper bound in ms -> count ("+Inf" for the overflow bucket)
+  histogram: Array<{ le: string; count: number }>;
+}
+
+// Envelopes captured by the local Sentry ingest stand-in
+export type CapturedEventKind = 'error' | 'transaction' | 'span' | 'replay' | 'feedback' | 'other';
+
+export interface CapturedEventDTO {
+  id: string;
+  receivedAt: string;
+  kind: CapturedEventKind;
+  // Raw envelope item type, e.g. event, transaction, replay_recording, session
+  itemType: string;
+  eventId: string | null;
+  projectId: string;
+  // Parsed JSON payload; binary items (replay recordings, attachments) only report their size
+  payload: unknown;
 }
 
 // Seed sizes for database population
 export type SeedSize = 'small' | 'medium' | 'large';
 
-export const SEED_CONFIGS: Record<SeedSize, {
+// How seeded data is skewed; zero exponents and no whales/seasonality give uniform data
+export interface SeedDistribution {
+  // Zipf exponents: rank k is picked with weight 1 / k^skew
+  userSkew: number;      // which users place orders
+  productSkew: number;   // which products end up in orders
+  categorySkew: number;  // how products spread over categories (long tail)
+  // Customers with `ordersEach` orders each, taken out of `orders`
+  whales: { count: number; ordersEach: number };
+  // Relative order volume per month (Jan-Dec) and weekday (Sun-Sat); null for uniform dates
+  seasonality: { months: number[]; weekdays: number[] } | null;
+}
+
+// Holiday peak in November/December, quiet February, busier weekends
+export const RETAIL_SEASONALITY: NonNullable<SeedDistribution['seasonality']> = {
+  months: [0.8, 0.7, 0.9, 0.9, 1.0, 0.95, 0.9, 0.95, 1.0, 1.1, 1.6, 2.0],
+  weekdays: [1.3, 0.9, 0.9, 0.95, 1.0, 1.1, 1.4],
+};
+
+export interface SeedConfig {
   users: number;
   categories: number;
   products: number;
   orders: number;
   itemsPerOrder: { min: number; max: number };
-}> = {
+  distribution: SeedDistribution;
+}
+
+export const SEED_CONFIGS: Record<SeedSize, SeedConfig> = {
   small: {
     users: 100,
     categories: 10,
     products: 500,
     orders: 1000,
     itemsPerOrder: { min: 1, max: 5 },
+    distribution: {
+      userSkew: 1.0,
+      productSkew: 1.1,
+      categorySkew: 1.2,
+      whales: { count: 2, ordersEach: 150 },
+      seasonality: RETAIL_SEASONALITY,
+    },
   },
   medium: {
     users: 1000,
@@ -87,6 +354,13 @@ export const SEED_CONFIGS: Record<SeedSize, {
     products: 2000,
     orders: 10000,
     itemsPerOrder: { min: 1, max: 8 },
+    distribution: {
+      userSkew: 1.0,
+      productSkew: 1.1,
+      categorySkew: 1.2,
+      whales: { count: 3, ordersEach: 1000 },
+      seasonality: RETAIL_SEASONALITY,
+    },
   },
   large: {
     users: 100000,
@@ -94,5 +368,140 @@ export const SEED_CONFIGS: Record<SeedSize, {
     products: 10000,
     orders: 500000,
     itemsPerOrder: { min: 1, max: 10 },
+    distribution: {
+      userSkew: 1.0,
+      productSkew: 1.1,
+      categorySkew: 1.2,
+      whales: { count: 10, ordersEach: 5000 },
+      seasonality: RETAIL_SEASONALITY,
+    },
   },
 };
+
+// Seeded in this order; each entity's ids are reserved as one contiguous block
+export type SeedEntity = 'categories' | 'products' | 'users' | 'orders';
+
+export interface SeedEntityProgressDTO {
+  // Rows committed so far, out of total
+  done: number;
+  total: number;
+  firstId: number;
+  batchSize: number;
+}
+
+// One `npm run seed` run (seed_runs table); appends stack on top of the last reset
+export interface SeedRunDTO {
+  id: number;
+  // SEED_RANDOM (null when the run was not reproducible)
+  seed: number | null;
+  size: SeedSize;
+  config: SeedConfig;
+  runId: string;
+  reset: boolean;
+  // End of the two-year window order dates were drawn from (SEED_REF_DATE)
+  refDate: string;
+  status: 'running' | 'completed' | 'failed';
+  // Checkpoints per entity, committed with each batch (a failed run resumes from here)
+  progress: Partial<Record<SeedEntity, SeedEntityProgressDTO>>;
+  counts: Record<'users' | 'categories' | 'products' | 'orders' | 'orderItems', number> | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+// Test fixtures (POST /api/debug/fixtures): isolated data sets torn down by name
+export type FixtureType = 'user-with-orders' | 'product-with-order-items' | 'empty-category';
+export type FixtureRequest = z.input<typeof fixtureRequestSchema>;
+
+// Rows created for a fixture; deleting its users and categories cascades to the rest
+export interface FixtureIdsDTO {
+  users: number[];
+  categories: number[];
+  products: number[];
+  orders: number[];
+}
+
+export interface FixtureDTO {
+  id: number;
+  name: string;
+  type: FixtureType;
+  // Parsed request params, defaults included
+  params: Record<string, unknown>;
+  ids: FixtureIdsDTO;
+  createdAt: string;
+}
+
+// Fault injection rules (POST /api/debug/faults), applied to matching /api requests
+export type FaultType = 'latency' | 'http-error' | 'connection-reset' | 'exception' | 'db-timeout';
+export type FaultRuleRequest = z.input<typeof faultRuleRequestSchema>;
+
+export interface FaultRuleDTO {
+  id: string;
+  // Path relative to /api: :param matches one segment, a trailing * the rest
+  route: string;
+  // null matches every method
+  method: string | null;
+  // Chance (0-1) that a matching request gets the fault
+  probability: number;
+  fault: FaultType;
+  // delayMs (latency), status (http-error), message (exception), timeoutMs (db-timeout)
+  options: Record<string, unknown>;
+  // The rule stops injecting after this many faults (null for no limit)
+  maxInjections: number | null;
+  // Requests that matched the route and method, and how many got the fault
+  matched: number;
+  injected: number;
+  createdAt: string;
+}
+
+// Database chaos scenarios (POST /api/debug/db-chaos/:scenario)
+export type DbChaosScenario = 'lock' | 'pool-exhaustion' | 'deadlock' | 'statement-timeout';
+
+export interface DbChaosErrorDTO {
+  // Sequelize error class, e.g. SequelizeDatabaseError or SequelizeConnectionAcquireTimeoutError
+  name: string;
+  // Postgres SQLSTATE (40P01 deadlock, 55P03 lock timeout, 57014 statement timeout)
+  sqlState: string | null;
+  message: string;
+  sentryEventId?: string;
+}
+
+export interface DbChaosResultDTO {
+  scenario: DbChaosScenario;
+  durationMs: number;
+  // Errors the scenario provoked, each captured in Sentry
+  errors: DbChaosErrorDTO[];
+  // Scenario-specific measurements (lock target, wait times, ...)
+  details: Record<string, unknown>;
+}
+
+// Downstream dependencies called during checkout (in-process stubs by default)
+export type DownstreamService = 'payment' | 'shipping' | 'tax';
+export type StubProfileInput = z.input<typeof stubProfilePatchSchema>;
+
+// How a stub service behaves (PATCH /api/debug/downstream/:service)
+export interface StubProfileDTO {
+  latencyMs: number;
+  // Latency varies by up to this much either way
+  jitterMs: number;
+  // Chance (0-1) of answering errorStatus instead
+  errorRate: number;
+  errorStatus: number;
+}
+
+export interface DownstreamServiceDTO {
+  service: DownstreamService;
+  // Base URL the checkout client calls
+  url: string;
+  profile: StubProfileDTO;
+  // Requests the stub received and how many it failed on purpose
+  calls: number;
+  errors: number;
+}
+
+export interface CheckoutDTO {
+  payment: { id: string; status: string; amount: number; currency: string };
+  shipping: { carrier: string; amount: number; estimatedDays: number };
+  tax: { rate: number; amount: number };
+  // Order total plus shipping and tax, as charged
+  total: number;
+}
@@ -0,0 +1,42 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findPageByKeyset, InvalidCursorError } from '../src/server/keyset.js';
+import { Order, Product, initModels } from '../src/server/models/index.js';
+
+function cursor(value: unknown, id: unknown = 1) {
+  return Buffer.from(JSON.stringify(['next', value, id])).toString('base64url');
+}
+
+// Forged cursors are rejected while decoding, before any query is sent
+describe('keyset cursors', () => {
+  before(() => {
+    initModels();
+  });
+
+  for (const [label, token] of [
+    ['not base64 JSON', 'not-a-cursor'],
+    ['a date that does not parse', cursor('yesterday')],
+    ['a number for a date column', cursor(1700000000000)],
+    ['an out-of-range date', cursor('2024-13-01T00:00:00.000Z')],
+    ['a fractional id', cursor('2024-01-01T00:00:00.000Z', 1.5)],
+  ]) {
+    test(`rejects ${label} on createdAt`, async () => {
+      await assert.rejects(
+        findPageByKeyset(Order, { sortColumn: 'createdAt', sortDirection: 'DESC', pageSize: 10, cursor: token }),
+        InvalidCursorError
+      );
+    });
+  }
+
+  for (const [label, token] of [
+    ['a number for a string column', cursor(5)],
+    ['a string holding NUL', cursor('a\u0000b')],
+  ]) {
+    test(`rejects ${label} on name`, async () => {
+      await assert.rejects(
+        findPageByKeyset(Product, { sortColumn: 'name', sortDirection: 'ASC', pageSize: 10, cursor: token }),
+        InvalidCursorError
+      );
+    });
+  }
+});
@@ -0,0 +1,49 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { closeDatabase, initDatabase } from '../src/server/db.js';
+import { createFixture, teardownFixture } from '../src/server/fixtures.js';
+import { transitionOrder } from '../src/server/orderLifecycle.js';
+import { Order, Product, type Fixture } from '../src/server/models/index.js';
+
+async function stockLevels(ids: number[]) {
+  const products = await Product.findAll({ where: { id: ids }, order: [['id', 'ASC']] });
+  return products.map((product) => product.stock);
+}
+
+// Needs a database to migrate and write to
+describe('order cancellation', { skip: !process.env.DATABASE_URL && 'DATABASE_URL is not set' }, () => {
+  let fixture: Fixture;
+
+  before(async () => {
+    await initDatabase();
+    fixture = await createFixture({
+      type: 'user-with-orders',
+      params: { products: 2, orders: 2, itemsPerOrder: 2 },
+    });
+  });
+
+  after(async () => {
+    await teardownFixture(fixture);
+    await closeDatabase();
+  });
+
+  test('leaves stock alone for orders that never reserved it', async () => {
+    const before = await stockLevels(fixture.ids.products);
+
+    const result = await transitionOrder(fixture.ids.orders[0], 'cancelled', 'test');
+
+    assert.equal(result?.order.status, 'cancelled');
+    assert.deepEqual(await stockLevels(fixture.ids.products), before);
+  });
+
+  test('puts reserved units back once', async () => {
+    const orderId = fixture.ids.orders[1];
+    await Order.update({ stockReserved: true }, { where: { id: orderId } });
+    const before = await stockLevels(fixture.ids.products);
+
+    const result = await transitionOrder(orderId, 'cancelled', 'test');
+
+    assert.equal(result?.order.stockReserved, false);
+    assert.deepEqual(await stockLevels(fixture.ids.products), before.map((stock) => stock + 1));
+  });
+});
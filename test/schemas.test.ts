@@ -0,0 +1,32 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadRunRequestSchema } from '../src/shared/schemas.js';
+
+describe('load run request path', () => {
+  for (const path of [
+    '/load-runs',
+    '/load-runs/abc/cancel',
+    '//load-runs',
+    '/./load-runs',
+    '/users/../load-runs',
+    '/users/%2e%2e/load-runs',
+    '/%6Coad-runs',
+    '/%6c%6f%61%64-runs',
+    '/LOAD-RUNS',
+    '/\\load-runs',
+    '/%E0%A4%A',
+  ]) {
+    test(`rejects ${path}`, () => {
+      const result = loadRunRequestSchema.safeParse({ path });
+
+      assert.equal(result.success, false);
+      assert.equal(result.error?.issues[0].message, 'load runs cannot target /load-runs');
+    });
+  }
+
+  for (const path of ['/users/1/orders', '/products/search?q=load-runs', '/users/load-runs']) {
+    test(`accepts ${path}`, () => {
+      assert.equal(loadRunRequestSchema.safeParse({ path }).success, true);
+    });
+  }
+});
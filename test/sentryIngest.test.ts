@@ -0,0 +1,69 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import zlib from 'zlib';
+import express from 'express';
+import {
+  ENVELOPE_PATH,
+  clearCapturedEvents,
+  envelopeHandlers,
+  getCapturedEvents,
+} from '../src/server/sentryIngest.js';
+
+const EVENT_ID = '9ec79c33ec9942ab8353589fcb2e04dc';
+
+// Large enough that the Node SDK would gzip it (over 32 KB)
+const envelope = [
+  JSON.stringify({ event_id: EVENT_ID }),
+  JSON.stringify({ type: 'event' }),
+  JSON.stringify({ event_id: EVENT_ID, message: 'x'.repeat(40 * 1024) }),
+].join('\n');
+
+describe('local Sentry ingest', () => {
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    const app = express();
+    app.post(ENVELOPE_PATH, ...envelopeHandlers);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/1/envelope/`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    clearCapturedEvents();
+  });
+
+  test('stores a plain envelope', async () => {
+    const response = await fetch(url, { method: 'POST', body: envelope });
+
+    assert.equal(response.status, 200);
+    assert.equal(getCapturedEvents({ eventId: EVENT_ID }).length, 1);
+  });
+
+  for (const [encoding, compress] of [
+    ['gzip', zlib.gzipSync],
+    ['deflate', zlib.deflateSync],
+    ['br', zlib.brotliCompressSync],
+  ] as const) {
+    test(`stores a ${encoding}-encoded envelope`, async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Encoding': encoding },
+        body: compress(Buffer.from(envelope)),
+      });
+
+      assert.equal(response.status, 200, await response.clone().text());
+      assert.deepEqual(await response.json(), { id: EVENT_ID });
+      const [event] = getCapturedEvents({ eventId: EVENT_ID });
+      assert.equal(event.kind, 'error');
+      assert.equal((event.payload as { message: string }).message.length, 40 * 1024);
+    });
+  }
+});